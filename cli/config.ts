@@ -0,0 +1,81 @@
+import {CacheMatchConfig, NavigationUrlsConfig, PushConfig, RetryConfig} from '../src/manifest';
+
+/**
+ * The configuration from which the generator builds a `Manifest`. URLs are given as globs, relative
+ * to the root of the app.
+ */
+export interface Config {
+  appData?: {[key: string]: string};
+  index?: string;
+
+  /**
+   * Regular expressions for which navigation requests are answered with the index. Passed through
+   * to the manifest.
+   */
+  navigationUrls?: NavigationUrlsConfig;
+
+  /**
+   * The algorithm files are hashed with. `sha1` (the default) gives bare hex hashes, and the others
+   * give Subresource Integrity style hashes, such as `sha256-<base64>`.
+   */
+  hashAlgorithm?: 'sha1'|'sha256'|'sha384'|'sha512';
+
+  assetGroups?: AssetGroup[];
+  dataGroups?: DataGroup[];
+
+  /**
+   * How notifications shown for push messages are handled. Passed through to the manifest.
+   */
+  push?: PushConfig;
+}
+
+export interface AssetGroup {
+  name: string;
+  mode: 'prefetch'|'lazy';
+
+  /**
+   * Globs for files in the build output. Every matching file is listed in the manifest, along with
+   * its hash. A glob starting with `!` excludes the files it matches.
+   */
+  files?: string[];
+
+  /**
+   * Regular expressions for resources which aren't part of the build output (such as those served
+   * from a CDN). These are passed through to the manifest as they are, and are cached unhashed.
+   */
+  patterns?: string[];
+
+  /**
+   * Globs for resources which aren't part of the build output, like `patterns` but easier to get
+   * right. A glob starting with `!` excludes the URLs it matches.
+   */
+  globs?: string[];
+
+  /**
+   * How requests are matched against the cached responses. Passed through to the manifest.
+   */
+  match?: CacheMatchConfig;
+
+  /**
+   * How persistently failed prefetches are retried. Passed through to the manifest.
+   */
+  retry?: RetryConfig;
+}
+
+export interface DataGroup {
+  name: string;
+
+  /**
+   * Globs for the URLs of the requests which this group caches. A glob starting with `!` excludes
+   * the URLs it matches.
+   */
+  urls: string[];
+
+  maxSize: number;
+  maxAge: number;
+  timeoutMs?: number;
+  staleIfError?: number;
+  strategy?: 'freshness'|'performance';
+  match?: CacheMatchConfig;
+  outbox?: boolean;
+}
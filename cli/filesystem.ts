@@ -0,0 +1,19 @@
+/**
+ * The generator's view of the build output. Paths are URLs relative to the root of the app, always
+ * starting with a slash.
+ */
+export interface Filesystem {
+  /**
+   * List every file below the given directory, recursively.
+   */
+  list(dir: string): Promise<string[]>;
+
+  read(file: string): Promise<string>;
+
+  /**
+   * Read a file as raw bytes, which is how its hash is computed.
+   */
+  readBinary(file: string): Promise<ArrayBuffer>;
+
+  write(file: string, contents: string): Promise<void>;
+}
@@ -0,0 +1,122 @@
+/// <reference types="node" />
+
+import {createHash} from 'crypto';
+
+import {GlobMatcher} from '../src/glob';
+import {AssetGroupConfig, DataGroupConfig, Manifest} from '../src/manifest';
+import {sha1Binary} from '../src/sha1';
+
+import {Config} from './config';
+import {Filesystem} from './filesystem';
+
+/**
+ * Builds a `Manifest` from a `Config`, by matching its globs against the files of a build.
+ */
+export class Generator {
+  constructor(readonly fs: Filesystem) {}
+
+  async process(config: Config): Promise<Manifest> {
+    const hashTable: {[url: string]: string} = {};
+    const manifest: Manifest = {
+      configVersion: 1,
+      assetGroups: await this.processAssetGroups(config, hashTable),
+      dataGroups: this.processDataGroups(config),
+      hashTable,
+    };
+    if (config.appData !== undefined) {
+      manifest.appData = config.appData;
+    }
+    if (config.index !== undefined) {
+      manifest.index = config.index;
+    }
+    if (config.navigationUrls !== undefined) {
+      manifest.navigationUrls = config.navigationUrls;
+    }
+    if (config.push !== undefined) {
+      manifest.push = config.push;
+    }
+    return manifest;
+  }
+
+  private async processAssetGroups(config: Config, hashTable: {[url: string]: string}): Promise<AssetGroupConfig[]> {
+    // The manifest itself is never one of the app's assets.
+    const allFiles = (await this.fs.list('/')).filter(file => file !== '/ngsw.json');
+
+    // Each file belongs to at most one group. If several groups match it, the first one wins.
+    const seen = new Set<string>();
+
+    return (config.assetGroups || []).reduce(async (previous, group) => {
+      const groups = await previous;
+
+      const matcher = new GlobMatcher(group.files || []);
+      const urls = allFiles
+        .filter(file => !seen.has(file))
+        .filter(file => matcher.matches(file))
+        .sort();
+
+      // Hash the files one at a time, to avoid reading the whole build into memory at once.
+      await urls.reduce(async (previousHash, url) => {
+        await previousHash;
+        seen.add(url);
+        hashTable[url] = hash(config.hashAlgorithm || 'sha1', await this.fs.readBinary(url));
+      }, Promise.resolve());
+
+      const assetGroup: AssetGroupConfig = {
+        name: group.name,
+        mode: group.mode,
+        urls,
+        patterns: group.patterns || [],
+      };
+      if (group.globs !== undefined) {
+        assetGroup.globs = group.globs;
+      }
+      if (group.match !== undefined) {
+        assetGroup.match = group.match;
+      }
+      if (group.retry !== undefined) {
+        assetGroup.retry = group.retry;
+      }
+      groups.push(assetGroup);
+      return groups;
+    }, Promise.resolve([] as AssetGroupConfig[]));
+  }
+
+  private processDataGroups(config: Config): DataGroupConfig[] {
+    return (config.dataGroups || []).map(group => {
+      const dataGroup: DataGroupConfig = {
+        name: group.name,
+        patterns: [],
+        globs: group.urls,
+        maxSize: group.maxSize,
+        maxAge: group.maxAge,
+      };
+      if (group.timeoutMs !== undefined) {
+        dataGroup.timeoutMs = group.timeoutMs;
+      }
+      if (group.staleIfError !== undefined) {
+        dataGroup.staleIfError = group.staleIfError;
+      }
+      if (group.strategy !== undefined) {
+        dataGroup.strategy = group.strategy;
+      }
+      if (group.match !== undefined) {
+        dataGroup.match = group.match;
+      }
+      if (group.outbox !== undefined) {
+        dataGroup.outbox = group.outbox;
+      }
+      return dataGroup;
+    });
+  }
+}
+
+/**
+ * Hash a file the way the SW expects: as bare hex for sha1, and Subresource Integrity style for the
+ * others.
+ */
+function hash(algorithm: string, contents: ArrayBuffer): string {
+  if (algorithm === 'sha1') {
+    return sha1Binary(contents);
+  }
+  return `${algorithm}-${createHash(algorithm).update(Buffer.from(contents)).digest('base64')}`;
+}
@@ -0,0 +1,33 @@
+/// <reference types="node" />
+
+import * as fs from 'fs';
+
+import {Config} from './config';
+import {Generator} from './generator';
+import {NodeFilesystem} from './node-filesystem';
+
+/**
+ * Generates `ngsw.json` for a build.
+ *
+ * Build with `yarn build:cli`, then run as:
+ *
+ *   node dist/cli/cli/main.js <config file> <build output directory>
+ *
+ * The manifest is written to `ngsw.json` in the build output directory.
+ */
+async function main(args: string[]): Promise<void> {
+  if (args.length !== 2) {
+    throw new Error('Usage: main.js <config file> <build output directory>');
+  }
+  const [configPath, distDir] = args;
+
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Config;
+  const filesystem = new NodeFilesystem(distDir);
+  const manifest = await new Generator(filesystem).process(config);
+  await filesystem.write('/ngsw.json', JSON.stringify(manifest, null, 2));
+}
+
+main(process.argv.slice(2)).catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+/// <reference types="node" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {Filesystem} from './filesystem';
+
+/**
+ * A `Filesystem` backed by a directory on disk.
+ */
+export class NodeFilesystem implements Filesystem {
+  constructor(private base: string) {}
+
+  async list(dir: string): Promise<string[]> {
+    const entries = await call<string[]>(cb => fs.readdir(this.canonical(dir), cb));
+    const lists = await Promise.all(entries.map(async entry => {
+      const url = path.posix.join(dir, entry);
+      const stats = await call<fs.Stats>(cb => fs.stat(this.canonical(url), cb));
+      return stats.isDirectory() ? this.list(url) : [url];
+    }));
+    return lists.reduce((all, list) => all.concat(list), [] as string[]);
+  }
+
+  read(file: string): Promise<string> {
+    return call<string>(cb => fs.readFile(this.canonical(file), 'utf8', cb));
+  }
+
+  async readBinary(file: string): Promise<ArrayBuffer> {
+    const buffer = await call<Buffer>(cb => fs.readFile(this.canonical(file), cb));
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  }
+
+  write(file: string, contents: string): Promise<void> {
+    return call<void>(cb => fs.writeFile(this.canonical(file), contents, 'utf8', cb));
+  }
+
+  private canonical(url: string): string {
+    return path.join(this.base, ...url.split('/'));
+  }
+}
+
+/**
+ * Call a Node-style asynchronous function, as a Promise.
+ */
+function call<T>(fn: (cb: (err: any, result?: T) => void) => void): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    fn((err, result) => err ? reject(err) : resolve(result));
+  });
+}
@@ -0,0 +1,208 @@
+import {LogEntry} from '../src/api';
+import {Action, OutboxFailedEvent, OutboxReplayedEvent, PushReceivedEvent, PushSubscriptionDescriptor, SwEvent, UpdateActivatedEvent, UpdateAvailableEvent, VersionFailedEvent} from '../src/msg';
+
+export {LogEntry} from '../src/api';
+export {OutboxFailedEvent, OutboxReplayedEvent, PushReceivedEvent, PushSubscriptionDescriptor, UpdateActivatedEvent, UpdateAvailableEvent, VersionFailedEvent, VersionDescriptor} from '../src/msg';
+
+/**
+ * Stops a listener from receiving any further events.
+ */
+export type Unsubscribe = () => void;
+
+interface PendingAction {
+  resolve: (result: any) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * The page-side half of the SW message protocol.
+ *
+ * Pages use this to find out about updates to the app, and to ask the SW to act on them, without
+ * having to deal with the raw messages.
+ */
+export class SwClient {
+  private listeners = new Map<string, Function[]>();
+
+  /**
+   * Actions which have been sent to the SW and not yet answered, keyed by the nonce they were sent
+   * with.
+   */
+  private pending = new Map<number, PendingAction>();
+
+  /**
+   * Start from a random nonce, so that the answers meant for another instance of this library on
+   * the same page aren't mistaken for ours.
+   */
+  private nextNonce = Math.round(Math.random() * 10000000);
+
+  /**
+   * @param timeout how long to wait for the SW to answer an action, in ms, before giving up on it.
+   */
+  constructor(private container: ServiceWorkerContainer, private timeout: number = 30000) {
+    this.container.addEventListener('message', (event: MessageEvent) => this.onMessage(event.data));
+  }
+
+  /**
+   * Whether a SW is currently controlling the page. If not, actions can't be sent.
+   */
+  get isEnabled(): boolean {
+    return this.container.controller !== null;
+  }
+
+  /**
+   * Listen for notices that a newer version of the app is available.
+   */
+  onUpdateAvailable(listener: (event: UpdateAvailableEvent) => void): Unsubscribe {
+    return this.listen('UPDATE_AVAILABLE', listener);
+  }
+
+  /**
+   * Listen for notices that the page has been moved onto a newer version of the app.
+   */
+  onUpdateActivated(listener: (event: UpdateActivatedEvent) => void): Unsubscribe {
+    return this.listen('UPDATE_ACTIVATED', listener);
+  }
+
+  /**
+   * Listen for notices that the version of the app the page is using has failed. Reloading the page
+   * is usually the best course of action.
+   */
+  onVersionFailed(listener: (event: VersionFailedEvent) => void): Unsubscribe {
+    return this.listen('VERSION_FAILED', listener);
+  }
+
+  /**
+   * Listen for notices that a request which was queued while the network was unreachable has since
+   * been sent and accepted.
+   */
+  onOutboxReplayed(listener: (event: OutboxReplayedEvent) => void): Unsubscribe {
+    return this.listen('OUTBOX_REPLAYED', listener);
+  }
+
+  /**
+   * Listen for notices that a request which was queued while the network was unreachable has since
+   * been sent, and rejected by the server.
+   */
+  onOutboxFailed(listener: (event: OutboxFailedEvent) => void): Unsubscribe {
+    return this.listen('OUTBOX_FAILED', listener);
+  }
+
+  /**
+   * Listen for push messages which the SW has received.
+   */
+  onPush(listener: (event: PushReceivedEvent) => void): Unsubscribe {
+    return this.listen('PUSH', listener);
+  }
+
+  /**
+   * Ask the SW to check for an update. Resolves to whether one was found once the check is complete,
+   * after any resulting `UPDATE_AVAILABLE` notice has been delivered. Rejects if the check failed.
+   */
+  checkForUpdate(): Promise<boolean> {
+    return this.send<boolean>({action: 'CHECK_FOR_UPDATE', nonce: this.nextNonce++});
+  }
+
+  /**
+   * Ask the SW to move the page onto the latest version of the app. Resolves to whether the page was
+   * moved, after any resulting `UPDATE_ACTIVATED` notice has been delivered.
+   */
+  activateUpdate(): Promise<boolean> {
+    return this.send<boolean>({action: 'UPDATE', nonce: this.nextNonce++});
+  }
+
+  /**
+   * Fetch the events in the SW's debug log, oldest first.
+   */
+  getLog(): Promise<LogEntry[]> {
+    return this.send<LogEntry[]>({action: 'GET_LOG', nonce: this.nextNonce++});
+  }
+
+  /**
+   * Ask the SW to throw away its debug log.
+   */
+  clearLog(): Promise<void> {
+    return this.send<boolean>({action: 'CLEAR_LOG', nonce: this.nextNonce++}).then(() => undefined);
+  }
+
+  /**
+   * Subscribe to push messages from the server with the given VAPID public key (base64url-encoded).
+   * Resolves to the subscription, which the server needs in order to send messages to it.
+   */
+  subscribeToPush(applicationServerKey: string): Promise<PushSubscriptionDescriptor> {
+    return this.send<PushSubscriptionDescriptor>({action: 'SUBSCRIBE_PUSH', applicationServerKey, nonce: this.nextNonce++});
+  }
+
+  /**
+   * Stop receiving push messages. Resolves to whether there was a subscription to cancel.
+   */
+  unsubscribeFromPush(): Promise<boolean> {
+    return this.send<boolean>({action: 'UNSUBSCRIBE_PUSH', nonce: this.nextNonce++});
+  }
+
+  private send<T>(msg: Action): Promise<T> {
+    const controller = this.container.controller;
+    if (controller === null) {
+      return Promise.reject(new Error('No service worker is controlling this page'));
+    }
+    return new Promise<T>((resolve, reject) => {
+      const nonce = msg.nonce!;
+
+      // A SW which is stopped or replaced partway through an action never answers it.
+      const timer = setTimeout(() => {
+        this.pending.delete(nonce);
+        reject(new Error(`The service worker didn't answer ${msg.action} within ${this.timeout}ms`));
+      }, this.timeout);
+
+      this.pending.set(nonce, {
+        resolve: result => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: err => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      });
+      controller.postMessage(msg);
+    });
+  }
+
+  private listen(type: string, listener: Function): Unsubscribe {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, []);
+    }
+    this.listeners.get(type)!.push(listener);
+    return () => {
+      const listeners = this.listeners.get(type)!;
+      const idx = listeners.indexOf(listener);
+      if (idx !== -1) {
+        listeners.splice(idx, 1);
+      }
+    };
+  }
+
+  private onMessage(event: SwEvent): void {
+    if (!event || !event.type) {
+      return;
+    }
+
+    if (event.type === 'STATUS') {
+      const pending = this.pending.get(event.nonce);
+      if (pending === undefined) {
+        // An answer to another instance of the library on the same page.
+        return;
+      }
+      this.pending.delete(event.nonce);
+      if (event.status) {
+        pending.resolve(event.result);
+      } else {
+        pending.reject(new Error(event.error));
+      }
+      return;
+    }
+
+    // Copy the list, in case a listener unsubscribes while it's being called.
+    const listeners = (this.listeners.get(event.type) || []).slice();
+    listeners.forEach(listener => listener(event));
+  }
+}
@@ -1,8 +1,25 @@
 import {Adapter} from './src/adapter';
-import {Driver} from './src/driver';
+import {Driver, DriverOptions} from './src/driver';
+import {Database} from './src/database';
 import {CacheDatabase} from './src/db-cache';
+import {IndexedDbDatabase} from './src/db-idb';
 
 const scope = self as any as ServiceWorkerGlobalScope;
 
-const adapter = new Adapter();
-const driver = new Driver(scope, adapter, new CacheDatabase(scope, adapter));
+const adapter = new Adapter(scope.registration.scope);
+
+// Prefer IndexedDB for the SW's own state where it's available, as it's much cheaper to update than
+// records stored in the Cache API.
+const db: Database = (typeof indexedDB !== 'undefined')
+  ? new IndexedDbDatabase(indexedDB)
+  : new CacheDatabase(scope, adapter);
+
+// Options are read from the query of the SW's script URL, so they can be chosen when the SW is
+// registered, such as with `register('/worker.js?precacheOnInstall=true')`.
+const params = new URL(location.href).searchParams;
+const options: DriverOptions = {
+  precacheOnInstall: params.get('precacheOnInstall') === 'true',
+  skipWaiting: params.get('skipWaiting') === 'true',
+};
+
+const driver = new Driver(scope, adapter, db, options);
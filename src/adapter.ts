@@ -1,4 +1,16 @@
+import {Logger} from './logger';
+
 export class Adapter {
+  /**
+   * Records what the SW is doing, for debugging.
+   */
+  readonly logger: Logger = new Logger(this);
+
+  /**
+   * @param scopeUrl the URL of the SW's registration scope, against which URLs are resolved.
+   */
+  constructor(readonly scopeUrl: string) {}
+
   newRequest(input: string|Request, init?: RequestInit): Request {
     return new Request(input, init);
   }
@@ -11,6 +23,47 @@ export class Adapter {
     return (source instanceof Client);
   }
 
+  /**
+   * Put a URL in the canonical form used to match it against the manifest, so that different ways
+   * of writing the same URL match the same resource.
+   *
+   * URLs on the SW's own origin become absolute paths (keeping any query string), whether they were
+   * relative or absolute to begin with. URLs on any other origin stay absolute.
+   */
+  normalizeUrl(url: string): string {
+    const parsed = new URL(url, this.scopeUrl);
+    const origin = new URL(this.scopeUrl);
+    if (parsed.protocol === origin.protocol && parsed.host === origin.host) {
+      return parsed.pathname + parsed.search;
+    }
+    return parsed.href;
+  }
+
+  /**
+   * Compute a digest of `data` with WebCrypto, using an algorithm such as `SHA-256`.
+   */
+  digest(algorithm: string, data: BufferSource): Promise<ArrayBuffer> {
+    return Promise.resolve(crypto.subtle.digest(algorithm, data));
+  }
+
+  /**
+   * Create a stream of the chunks `pull` resolves to, one at a time, which ends once it resolves to
+   * `null`. If it rejects, the stream errors.
+   */
+  newReadableStream(pull: () => Promise<Uint8Array|null>): ReadableStream {
+    // The DOM typings don't know that the constructor takes a source.
+    return new (ReadableStream as any)({
+      pull: async (controller: any) => {
+        const chunk = await pull();
+        if (chunk !== null) {
+          controller.enqueue(chunk);
+        } else {
+          controller.close();
+        }
+      },
+    });
+  }
+
   get time(): number {
     return Date.now();
   }
@@ -11,4 +11,43 @@ export interface UrlMetadata {
 export interface CacheState {
   response: Response;
   metadata?: UrlMetadata;
-}
\ No newline at end of file
+}
+
+export type LogLevel = 'debug'|'info'|'warn'|'error';
+
+/**
+ * A single event recorded by the `Logger`.
+ */
+export interface LogEntry {
+  time: number;
+  level: LogLevel;
+  source: string;
+  message: string;
+  stack?: string;
+}
+
+export interface DebugState {
+  state: string;
+  why: string;
+  latestHash: string|null;
+}
+
+export interface DebugVersion {
+  hash: string;
+  okay: boolean;
+  clients: string[];
+}
+
+export interface DebugIdleState {
+  queue: number;
+  lastFailure: string|null;
+}
+
+/**
+ * Something whose internal state can be inspected through the debug endpoint.
+ */
+export interface Debuggable {
+  debugState(): Promise<DebugState>;
+  debugVersions(): Promise<DebugVersion[]>;
+  debugIdleState(): Promise<DebugIdleState>;
+}
@@ -4,8 +4,18 @@ import {UpdateSource, CacheState} from './api';
 import {DataGroup} from './data';
 import {Database} from './database';
 import {IdleScheduler} from './idle';
-import {Manifest} from './manifest';
-
+import {Manifest, NavigationUrlsConfig} from './manifest';
+import {Outbox} from './outbox';
+
+/**
+ * Which navigation requests are answered with the index page, if the manifest doesn't say. By
+ * default this is every URL except those which look like requests for files (where the last path
+ * segment contains a dot).
+ */
+const DEFAULT_NAVIGATION_URLS: NavigationUrlsConfig = {
+  include: ['.*'],
+  exclude: ['/[^/?]*\\.[^/?]*(\\?.*)?$'],
+};
 
 export class AppVersion implements UpdateSource {
   private hashTable = new Map<string, string>();
@@ -13,6 +23,11 @@ export class AppVersion implements UpdateSource {
   private assetGroups: AssetGroup[];
   private dataGroups: DataGroup[];
 
+  /**
+   * Patterns which decide whether a navigation request should be answered with the index page.
+   */
+  private navigationUrls: {include: RegExp[], exclude: RegExp[]};
+
   /**
    * Tracks whether the manifest has encountered any inconsistencies.
    */
@@ -22,10 +37,11 @@ export class AppVersion implements UpdateSource {
     return this._okay;
   }
 
-  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, private database: Database, private idle: IdleScheduler, readonly manifest: Manifest, private manifestHash: string) {
-    // The hashTable within the manifest is an Object - convert it to a Map for easier lookups.
+  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, private database: Database, private idle: IdleScheduler, private outbox: Outbox, readonly manifest: Manifest, private manifestHash: string) {
+    // The hashTable within the manifest is an Object - convert it to a Map for easier lookups. Its
+    // keys are normalized, like every URL which is looked up in it.
     Object.keys(this.manifest.hashTable).forEach(url => {
-      this.hashTable.set(url, this.manifest.hashTable[url]);
+      this.hashTable.set(this.adapter.normalizeUrl(url), this.manifest.hashTable[url]);
     });
 
     // Process each `AssetGroup` declared in the manifest. Each declared group gets an `AssetGroup` instance
@@ -46,7 +62,14 @@ export class AppVersion implements UpdateSource {
     this.assetGroups.forEach(group => this.assetGroupsByName.set(group.name, group));
 
     // Process each `DataGroup` declared in the manifest.
-    this.dataGroups = (manifest.dataGroups || []).map(config => new DataGroup(this.scope, this.adapter, config, this.database, `data`));
+    this.dataGroups = (manifest.dataGroups || []).map(config => new DataGroup(this.scope, this.adapter, config, this.database, this.outbox, `data`));
+
+    // Patterns for navigation URLs are regular expressions disguised as strings, too.
+    const navigationUrls = manifest.navigationUrls || DEFAULT_NAVIGATION_URLS;
+    this.navigationUrls = {
+      include: navigationUrls.include.map(pattern => new RegExp(pattern)),
+      exclude: navigationUrls.exclude.map(pattern => new RegExp(pattern)),
+    };
   }
 
   /**
@@ -94,7 +117,7 @@ export class AppVersion implements UpdateSource {
     }
   
     // Perform the same reduction operation as above, 
-    return this.dataGroups.reduce(async (potentialResponse, group) => {
+    const data = await this.dataGroups.reduce(async (potentialResponse, group) => {
       const resp = await potentialResponse;
       if (resp !== null) {
         return resp;
@@ -102,10 +125,34 @@ export class AppVersion implements UpdateSource {
 
       return group.handleFetch(req, context);
     }, Promise.resolve(null));
+
+    if (data !== null) {
+      return data;
+    }
+
+    // Nothing in the manifest covers this request directly. If it's a navigation to one of the
+    // application's own routes, it can still be answered with this version's index page.
+    if (this.isNavigationRequest(req)) {
+      return this.handleFetch(this.adapter.newRequest(this.manifest.index!), context);
+    }
+    return null;
+  }
+
+  /**
+   * Determine whether the request is a navigation which should be served the index page.
+   */
+  private isNavigationRequest(req: Request): boolean {
+    if (this.manifest.index === undefined || req.mode !== 'navigate' || req.method !== 'GET') {
+      return false;
+    }
+    const url = this.adapter.normalizeUrl(req.url);
+    return this.navigationUrls.include.some(pattern => pattern.test(url)) &&
+      !this.navigationUrls.exclude.some(pattern => pattern.test(url));
   }
 
   async lookupResourceWithHash(url: string, hash: string): Promise<Response|null> {
     const req = this.adapter.newRequest(url);
+    url = this.adapter.normalizeUrl(url);
 
     // Verify that this version has the requested resource cached. If not, there's no point in trying.
     if (!this.hashTable.has(url)) {
@@ -139,7 +186,16 @@ export class AppVersion implements UpdateSource {
     }, Promise.resolve<string[]>([]));
   }
 
+  /**
+   * The key which this version's initialization is scheduled under in the `IdleScheduler`.
+   */
+  get initializationKey(): string {
+    return `${this.manifestHash}:initialize`;
+  }
+
   async cleanup(): Promise<void> {
+    // Nothing more should be done for a version which is going away.
+    this.idle.cancel(this.initializationKey);
     await Promise.all(this.assetGroups.map(group => group.cleanup()));
     await Promise.all(this.dataGroups.map(group => group.cleanup()));
   }
@@ -1,9 +1,30 @@
 import {Adapter, Context} from './adapter';
 import {CacheState, UpdateSource, UrlMetadata} from './api';
 import {Database, Table} from './database';
+import {GlobMatcher} from './glob';
 import {IdleScheduler} from './idle';
+import {hasherLike} from './integrity';
 import {AssetGroupConfig} from './manifest';
-import {sha1} from './sha1';
+import {CacheMatcher} from './match';
+
+/**
+ * How many times fetching a resource has failed so far. It's persisted, so retries carry on where
+ * they left off if the SW restarts.
+ */
+interface RetryRecord {
+  attempts: number;
+}
+
+/**
+ * A failure which might not happen again if the request is retried, such as a server error.
+ */
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    // Extending a built-in loses the prototype when compiled to ES5, so restore it.
+    Object.setPrototypeOf(this, TransientError.prototype);
+  }
+}
 
 export abstract class AssetGroup {
   /**
@@ -17,6 +38,21 @@ export abstract class AssetGroup {
    */
   protected patterns: RegExp[] = [];
 
+  /**
+   * Globs, which can also exclude URLs the patterns would otherwise match.
+   */
+  protected globs: GlobMatcher;
+
+  /**
+   * The known resource URLs of this group, normalized (see `Adapter.normalizeUrl`).
+   */
+  protected urls: string[];
+
+  /**
+   * Decides which cached response a request matches, and the key its URL is tracked under.
+   */
+  protected matcher: CacheMatcher;
+
   /**
    * A Promise which resolves to the `Cache` used to back this asset group. This is opened
    * from the constructor.
@@ -33,6 +69,11 @@ export abstract class AssetGroup {
    */
   protected metadata: Promise<Table>;
 
+  /**
+   * Keys of the revalidations this group has scheduled in the `IdleScheduler` which haven't run yet.
+   */
+  private revalidations = new Set<string>();
+
   constructor(
       protected scope: ServiceWorkerGlobalScope,
       protected adapter: Adapter,
@@ -44,7 +85,13 @@ export abstract class AssetGroup {
     this.name = config.name;
     // Patterns in the config are regular expressions disguised as strings. Breathe life into them.
     this.patterns = this.config.patterns.map(pattern => new RegExp(pattern));
-    
+    this.globs = new GlobMatcher(this.config.globs || []);
+
+    // URLs are always compared in normalized form, so that it doesn't matter whether the manifest or
+    // the page writes them relative or absolute.
+    this.urls = this.config.urls.map(url => this.adapter.normalizeUrl(url));
+    this.matcher = new CacheMatcher(this.adapter, this.config.match);
+
     // This is the primary cache, which holds all of the cached requests for this group. If a resource
     // isn't in this cache, it hasn't been fetched yet.
     this.cache = this.scope.caches.open(`${this.prefix}:${this.config.name}:cache`);
@@ -55,14 +102,32 @@ export abstract class AssetGroup {
   abstract initializeFully(updateFrom?: UpdateSource): Promise<void>;
 
   async cleanup(): Promise<void> {
+    this.revalidations.forEach(taskKey => this.idle.cancel(taskKey));
+    this.revalidations.clear();
     await this.scope.caches.delete(`${this.prefix}:${this.config.name}:cache`);
+    if (this.config.retry !== undefined) {
+      await this.db.delete(`${this.prefix}:${this.config.name}:retry`);
+    }
+  }
+
+  /**
+   * Whether a (normalized) URL is dynamically matched by this group, through its patterns or globs.
+   * A negated glob wins over everything else.
+   */
+  protected matchesPattern(url: string): boolean {
+    if (this.globs.excludes(url)) {
+      return false;
+    }
+    return this.patterns.some(pattern => pattern.test(url)) || this.globs.matches(url);
   }
 
   async handleFetch(req: Request, ctx: Context): Promise<Response|null> {
     // Either the request matches one of the known resource URLs, one of the patterns for
     // dynamically matched URLs, or neither. Determine which is the case for this request in
     // order to decide how to handle it.
-    if (this.config.urls.indexOf(req.url) !== -1 || this.patterns.some(pattern => pattern.test(req.url))) {
+    const url = this.adapter.normalizeUrl(req.url);
+    const key = this.matcher.keyFor(url);
+    if (this.urls.indexOf(key) !== -1 || this.matchesPattern(url)) {
       // This URL matches a known resource. Either it's been cached already or it's missing, in
       // which case it needs to be loaded from the network.
 
@@ -71,11 +136,11 @@ export abstract class AssetGroup {
 
       // Look for a cached response. If one exists, it can be used to resolve the fetch
       // operation.
-      const cachedResponse = await cache.match(req);
+      const cachedResponse = await cache.match(this.matcher.requestFor(req), this.matcher.queryOptions);
       if (cachedResponse !== undefined) {
         // A response has already been cached (which presumably matches the hash for this
         // resource). Check whether it's safe to serve this resource from cache.
-        if (this.hashes.has(req.url)) {
+        if (this.hashes.has(key)) {
           // This resource has a hash, and thus is versioned by the manifest. It's safe to return
           // the response.
           return cachedResponse;
@@ -83,9 +148,13 @@ export abstract class AssetGroup {
           // This resource has no hash, and yet exists in the cache. Check how old this request is
           // to make sure it's still usable.
           if (await this.needToRevalidate(req, cachedResponse)) {
-            this.idle.schedule(async () => {
+            // However often the resource is requested, it only needs revalidating once.
+            const taskKey = `${this.prefix}:${this.config.name}:revalidate:${key}`;
+            this.revalidations.add(taskKey);
+            this.idle.schedule(taskKey, async () => {
+              this.revalidations.delete(taskKey);
               await this.fetchAndCacheOnce(req);
-            })
+            }, {priority: 'low'});
           }
 
           // In either case (revalidation or not), the cached response must be good.
@@ -141,9 +210,10 @@ export abstract class AssetGroup {
         try {
           // Check the metadata table. If a timestamp is there, use it.
           const metaTable = await this.metadata;
-          ts = (await metaTable.read<UrlMetadata>(req.url)).ts;
+          ts = (await metaTable.read<UrlMetadata>(this.matcher.keyFor(req.url))).ts;
         } catch (e) {
           // Otherwise, look for a Date header.
+          this.adapter.logger.debug('AssetGroup', `No metadata for ${req.url}, falling back on its Date header`);
           const date = res.headers.get('Date');
           if (date === null) {
             // Unable to determine when this response was created. Assume that it's stale, and
@@ -190,7 +260,7 @@ export abstract class AssetGroup {
 
     let metadata: UrlMetadata|undefined = undefined;
     try {
-      metadata = await metaTable.read<UrlMetadata>(url);
+      metadata = await metaTable.read<UrlMetadata>(this.matcher.keyFor(url));
     } catch (e) {
       // Do nothing, not found.
     }
@@ -203,18 +273,19 @@ export abstract class AssetGroup {
     const keys = await cache.keys();
     return keys
       // TODO: optimize this
-      .filter(url => this.config.urls.indexOf(url) === -1)
-      .filter(url => this.patterns.some(pattern => pattern.test(url)));
+      .filter(url => this.urls.indexOf(url) === -1)
+      .filter(url => this.matchesPattern(url));
   }
 
   protected async fetchAndCacheOnce(req: Request): Promise<Response> {
     // The `inFlightRequests` map holds information about which caching operations are currently
     // underway for known resources. If this request appears there, another "thread" is already
     // in the process of caching it, and this work should not be duplicated.
-    if (this.inFlightRequests.has(req.url)) {
+    const url = this.matcher.keyFor(req.url);
+    if (this.inFlightRequests.has(url)) {
       // There is a caching operation already in progress for this request. Wait for it to
       // complete, and hopefully it will have yielded a useful response.
-      return this.inFlightRequests.get(req.url)!;
+      return this.inFlightRequests.get(url)!;
     }
 
 
@@ -224,7 +295,7 @@ export abstract class AssetGroup {
 
     // Save this operation in `inFlightRequests` so any other "thread" attempting to cache it
     // will block on this chain instead of duplicating effort.
-    this.inFlightRequests.set(req.url, fetchOp);
+    this.inFlightRequests.set(url, fetchOp);
 
     // Make sure this attempt is cleaned up properly on failure.
     try {
@@ -235,42 +306,48 @@ export abstract class AssetGroup {
 
       // It's very important that only successful responses are cached. Unsuccessful responses
       // should never be cached as this can completely break applications.
-      if (!res.ok) {
-        throw new Error(`Response not Ok (fetchAndCacheOnce): request for ${req.url} returned response ${res.status} ${res.statusText}`);
+      //
+      // The exception is an opaque response to a cross-origin `no-cors` request, which hides its
+      // status. There's no way to tell whether it's successful, but without caching it the resource
+      // could never be served offline. This only applies to unhashed resources: a hashed one must be
+      // readable (served with CORS), as otherwise its contents can't be verified.
+      if (!res.ok && !(res.type === 'opaque' && !this.hashes.has(url))) {
+        throw responseError(`Response not Ok (fetchAndCacheOnce): request for ${url} returned response ${res.status} ${res.statusText}`, res);
       }
 
-      // This response is safe to cache (as long as it's cloned). Wait until the cache operation
-      // is complete.
-      const cache = await this.scope.caches.open(`${this.prefix}:${this.config.name}:cache`);
-      await cache.put(req, res.clone());
+      // A hashed response was already cached as it was verified. Any other response is safe to
+      // cache (as long as it's cloned). Wait until the cache operation is complete.
+      if (!this.hashes.has(url)) {
+        const cache = await this.cache;
+        await cache.put(this.matcher.requestFor(req), res.clone());
 
-      // If the request is not hashed, update its metadata, especially the timestamp. This is needed
-      // for future determination of whether this cached response is stale or not.
-      if (!this.hashes.has(req.url)) {
+        // Update its metadata, especially the timestamp. This is needed for future determination of
+        // whether this cached response is stale or not.
         const meta: UrlMetadata = {ts: this.adapter.time};
         const metaTable = await this.metadata;
-        await metaTable.write(req.url, meta);
-
+        await metaTable.write(url, meta);
       }
 
       return res;
     } finally {
       // Finally, it can be removed from `inFlightRequests`. This might result in a double-remove
       // if some other  chain was already making this request too, but that won't hurt anything.
-      this.inFlightRequests.delete(req.url);
+      this.inFlightRequests.delete(url);
     }
   }
 
   /**
-   * Load a particular asset from the network, accounting for hash validation.
+   * Load a particular asset from the network, accounting for hash validation. An asset with a hash
+   * is cached as it's validated, and the response comes back out of the cache.
    */
   protected async fetchFromNetwork(req: Request): Promise<Response> {
     // If a hash is available for this resource, then compare the fetched version with the
     // canonical hash. Otherwise, the network version will have to be trusted.
-    if (this.hashes.has(req.url)) {
+    const url = this.matcher.keyFor(req.url);
+    if (this.hashes.has(url)) {
       // It turns out this resource does have a hash. Look it up. Unless the fetched version
       // matches this hash, it's invalid and the whole manifest may need to be thrown out.
-      const canonicalHash = this.hashes.get(req.url)!;
+      const canonicalHash = this.hashes.get(url)!;
 
       // Ideally, the resource would be requested with cache-busting to guarantee the SW gets
       // the freshest version. However, doing this would eliminate any chance of the response
@@ -291,13 +368,20 @@ export abstract class AssetGroup {
       // reasons: either the non-cache-busted request failed (hopefully transiently) or if the
       // hash of the content retrieved does not match the canonical hash from the manifest. It's
       // only valid to access the content of the first response if the request was successful.
-      let makeCacheBustedRequest: boolean = networkResult.ok;
-      if (makeCacheBustedRequest) {
+      // An opaque response (to a cross-origin `no-cors` request) can't be read at all, so it always
+      // needs a cache-busted request, which is made with CORS as a hashed resource must support.
+      let makeCacheBustedRequest: boolean = networkResult.type === 'opaque';
+      if (networkResult.ok) {
         // The request was successful. A cache-busted request is only necessary if the hashes
-        // don't match. Compare them, making sure to clone the response so it can be used later
-        // if it proves to be valid.
-        const fetchedHash = sha1(await networkResult.clone().text());
-        makeCacheBustedRequest = (fetchedHash !== canonicalHash);
+        // don't match. The response is hashed as it streams into the cache, and is only committed
+        // to it if it proves to be valid.
+        const [fetchedHash, cached] = await this.cacheIfValid(req, networkResult, canonicalHash);
+        if (cached !== null) {
+          // Excellent, the version from the network matched on the first try, with no need for
+          // cache-busting. Use it.
+          return cached;
+        }
+        makeCacheBustedRequest = true;
       }
 
       // Make a cache busted request to the network, if necessary.
@@ -311,24 +395,23 @@ export abstract class AssetGroup {
         
         // If the response was unsuccessful, there's nothing more that can be done.
         if (!cacheBustedResult.ok) {
-          throw new Error(`Response not Ok (fetchFromNetwork): cache busted request for ${req.url} returned response ${cacheBustedResult.status} ${cacheBustedResult.statusText}`)
+          throw responseError(`Response not Ok (fetchFromNetwork): cache busted request for ${url} returned response ${cacheBustedResult.status} ${cacheBustedResult.statusText}`, cacheBustedResult);
         }
 
         // Hash the contents.
-        const cacheBustedHash = sha1(await cacheBustedResult.clone().text());
+        const [cacheBustedHash, cached] = await this.cacheIfValid(req, cacheBustedResult, canonicalHash);
 
         // If the cache-busted version doesn't match, then the manifest is not an accurate
         // representation of the server's current set of files, and the SW should give up.
-        if (canonicalHash !== cacheBustedHash) {
-          throw new Error(`Hash mismatch (${req.url}): expected ${canonicalHash}, got ${cacheBustedHash} (after cache busting)`);
+        if (cached === null) {
+          throw new Error(`Hash mismatch (${url}): expected ${canonicalHash}, got ${cacheBustedHash} (after cache busting)`);
         }
 
         // If it does match, then use the cache-busted result.
-        return cacheBustedResult;
+        return cached;
       }
-      
-      // Excellent, the version from the network matched on the first try, with no need for
-      // cache-busting. Use it.
+
+      // The first request failed, and the cache-busted one wasn't tried.
       return networkResult;
     } else {
       // This URL doesn't exist in our hash database, so it must be requested directly.
@@ -336,19 +419,45 @@ export abstract class AssetGroup {
     }
   }
 
+  /**
+   * Stream a response into the cache while hashing it, so the body never has to be held in memory
+   * and is written only once. The end of the body is held back until its hash is known, and if the
+   * hash doesn't match `canonicalHash`, the write fails instead of being committed. Resolves to the
+   * hash, and to the cached response if it matched.
+   */
+  private async cacheIfValid(req: Request, res: Response, canonicalHash: string): Promise<[string, Response|null]> {
+    const cache = await this.cache;
+    const key = this.matcher.requestFor(req);
+    const verifying = new VerifyingStream(this.adapter, canonicalHash, res.body);
+    try {
+      await cache.put(key, this.adapter.newResponse(verifying.stream, {
+        status: res.status,
+        statusText: res.statusText,
+        headers: res.headers,
+      }));
+    } catch (err) {
+      if (verifying.hash !== null && verifying.hash !== canonicalHash) {
+        return [verifying.hash, null];
+      }
+      throw err;
+    }
+    return [verifying.hash!, (await cache.match(key)) || null];
+  }
+
   protected async maybeUpdate(updateFrom: UpdateSource, req: Request, cache: Cache): Promise<boolean> {
     // Check if this resource is hashed and already exists in the cache of a prior version.
-    if (this.hashes.has(req.url)) {
-      const hash = this.hashes.get(req.url)!;
+    const url = this.matcher.keyFor(req.url);
+    if (this.hashes.has(url)) {
+      const hash = this.hashes.get(url)!;
 
       // Check the caches of prior versions, using the hash to ensure the correct version of
       // the resource is loaded.
-      const res = await updateFrom.lookupResourceWithHash(req.url, hash);
+      const res = await updateFrom.lookupResourceWithHash(url, hash);
 
       // If a previously cached version was available, copy it over to this cache.
       if (res !== null) {
         // Copy to this cache.
-        await cache.put(req, res);
+        await cache.put(this.matcher.requestFor(req), res);
 
         // No need to do anything further with this resource, it's now cached properly.
         return true;
@@ -372,7 +481,7 @@ export class PrefetchAssetGroup extends AssetGroup {
     // Cache all known resources serially. As this reduce proceeds, each Promise waits
     // on the last before starting the fetch/cache operation for the next request. Any
     // errors cause fall-through to the final Promise which rejects.
-    await this.config.urls.reduce(async (previous: Promise<void>, url: string) => {
+    await this.urls.reduce(async (previous: Promise<void>, url: string) => {
       // Wait on all previous operations to complete.
       await previous;
 
@@ -393,14 +502,14 @@ export class PrefetchAssetGroup extends AssetGroup {
       }
 
       // Otherwise, go to the network and hopefully cache the response (if successful).
-      await this.fetchAndCacheOnce(req);
+      await this.fetchAndCacheWithRetry(req);
     }, Promise.resolve());
 
     // Handle updating of unknown (unhashed) resources.
     if (updateFrom !== undefined) {
       const metaTable = await this.metadata;
       let resources = (await updateFrom.previouslyCachedResources());
-        resources = resources.filter(url => this.patterns.some(pattern => pattern.test(url)));
+        resources = resources.filter(url => this.matchesPattern(url));
       await resources.reduce(async (previous, url) => {
         await previous;
         const req = this.adapter.newRequest(url);
@@ -421,6 +530,55 @@ export class PrefetchAssetGroup extends AssetGroup {
       }, Promise.resolve());
     }
   }
+
+  /**
+   * Fetch and cache a resource, retrying with exponential backoff if the group is configured to and
+   * the failure looks transient. Anything else, such as a hash mismatch, fails straight away.
+   */
+  private async fetchAndCacheWithRetry(req: Request): Promise<void> {
+    const retry = this.config.retry;
+    if (retry === undefined || retry.attempts <= 1) {
+      await this.fetchAndCacheOnce(req);
+      return;
+    }
+
+    const url = this.matcher.keyFor(req.url);
+    const table = await this.db.open(`${this.prefix}:${this.config.name}:retry`);
+    let attempts = 0;
+    try {
+      attempts = (await table.read<RetryRecord>(url)).attempts;
+    } catch (e) {
+      // Not found, so this is the first attempt.
+    }
+
+    while (true) {
+      try {
+        await this.fetchAndCacheOnce(req);
+        if (attempts > 0) {
+          await table.delete(url);
+        }
+        return;
+      } catch (err) {
+        attempts++;
+        if (!isTransient(err) || attempts >= retry.attempts) {
+          // This is the end of the line, so the next try (say, of the next update) gets the full
+          // count again.
+          if (attempts > 1) {
+            await table.delete(url);
+          }
+          throw err;
+        }
+        await table.write(url, {attempts} as RetryRecord);
+
+        let delay = retry.delayMs * Math.pow(2, attempts - 1);
+        if (retry.maxDelayMs !== undefined) {
+          delay = Math.min(delay, retry.maxDelayMs);
+        }
+        this.adapter.logger.warn('AssetGroup', `Fetching ${url} failed (attempt ${attempts} of ${retry.attempts}), retrying in ${delay}ms`, err);
+        await this.adapter.timeout(delay);
+      }
+    }
+  }
 }
 
 export class LazyAssetGroup extends AssetGroup {
@@ -435,7 +593,7 @@ export class LazyAssetGroup extends AssetGroup {
     const cache = await this.cache;
 
     // Loop through the listed resources, caching any which are available.
-    await this.config.urls.reduce(async (previous: Promise<void>, url: string) => {
+    await this.urls.reduce(async (previous: Promise<void>, url: string) => {
       // Wait on all previous operations to complete.
       await previous;
       
@@ -455,4 +613,57 @@ export class LazyAssetGroup extends AssetGroup {
       await this.maybeUpdate(updateFrom, req, cache);
     }, Promise.resolve())
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The error for an unsuccessful response. Server errors are transient.
+ */
+function responseError(message: string, res: Response): Error {
+  return (res.status >= 500) ? new TransientError(message) : new Error(message);
+}
+
+/**
+ * Whether a failure might not happen again: either the network failed, which rejects a fetch with a
+ * `TypeError`, or the server did.
+ */
+function isTransient(err: any): boolean {
+  return (err instanceof TypeError) || (err instanceof TransientError);
+}
+
+/**
+ * A stream which passes another one through while hashing it.
+ *
+ * Subresource Integrity hashes are computed by WebCrypto through the `Adapter`, which can only digest
+ * a whole buffer, so the bytes are collected as they pass through and digested before the end of the
+ * stream is released.
+ */
+class VerifyingStream {
+  readonly stream: ReadableStream;
+
+  /**
+   * The hash of everything which came through, once the stream has been read to its end.
+   */
+  hash: string|null = null;
+
+  /**
+   * The end of the stream is held back until its hash is known. If the hash doesn't match
+   * `expected`, the stream errors instead of ending, so anything reading it (such as `Cache.put()`)
+   * gives up rather than keeping what it read.
+   */
+  constructor(adapter: Adapter, expected: string, source: ReadableStream|null) {
+    const hasher = hasherLike(adapter, expected);
+    const reader = (source !== null) ? source.getReader() : null;
+    this.stream = adapter.newReadableStream(async () => {
+      const {done, value} = (reader !== null) ? await reader.read() : {done: true, value: undefined};
+      if (!done) {
+        hasher.update(value);
+        return value;
+      }
+      this.hash = await hasher.digest();
+      if (this.hash !== expected) {
+        throw new Error(`Hash mismatch: expected ${expected}, got ${this.hash}`);
+      }
+      return null;
+    });
+  }
+}
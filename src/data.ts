@@ -1,11 +1,25 @@
 import {Adapter, Context} from './adapter';
 import {Database, Table} from './database';
+import {GlobMatcher} from './glob';
 import {DataGroupConfig} from './manifest';
+import {CacheMatcher} from './match';
+import {Outbox} from './outbox';
+
+/**
+ * Header added to stale responses which are served from the cache because the network failed.
+ */
+const STALE_HEADER = 'ngsw-stale';
 
 interface AgeRecord {
   age: number;
 }
 
+interface CachedResponse {
+  res: Response;
+  age: number;
+  stale: boolean;
+}
+
 interface LruNode {
   url: string;
   previous: string|null;
@@ -37,6 +51,13 @@ class LruList {
     return this.state.count;
   }
 
+  /**
+   * Whether the given URL is currently tracked in the chain.
+   */
+  has(url: string): boolean {
+    return this.state.map[url] !== undefined;
+  }
+
   /**
    * Remove the tail.
    */
@@ -93,6 +114,7 @@ class LruList {
       const next = this.state.map[node.next!]!;
       next.previous = null;
       this.state.head = next.url;
+      delete this.state.map[url];
       this.state.count--;
       return true;
     } 
@@ -115,7 +137,8 @@ class LruList {
       this.state.tail = node.previous!;
     }
 
-    // Count the removal.
+    // Count the removal, and stop tracking the node.
+    delete this.state.map[url];
     this.state.count--;
 
     return true;
@@ -173,6 +196,8 @@ class LruList {
 
 export class DataGroup {
   private readonly patterns: RegExp[];
+  private readonly globs: GlobMatcher;
+  private readonly matcher: CacheMatcher;
   private readonly cache: Promise<Cache>;
   private readonly metadata: Promise<Cache>;
   
@@ -182,8 +207,10 @@ export class DataGroup {
   private readonly lruTable: Promise<Table>;
   private readonly ageTable: Promise<Table>;
 
-  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, private config: DataGroupConfig, private db: Database, private prefix: string) {
+  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, private config: DataGroupConfig, private db: Database, private outbox: Outbox, private prefix: string) {
     this.patterns = this.config.patterns.map(pattern => new RegExp(pattern));
+    this.globs = new GlobMatcher(this.config.globs || []);
+    this.matcher = new CacheMatcher(this.adapter, this.config.match);
     this.cache = this.scope.caches.open(`${this.prefix}:dynamic:${this.config.name}:cache`);
     this.lruTable = this.db.open(`${this.prefix}:dynamic:${this.config.name}:lru`);
     this.ageTable = this.db.open(`${this.prefix}:dynamic:${this.config.name}:age`);
@@ -216,7 +243,11 @@ export class DataGroup {
   }
 
   async handleFetch(req: Request, ctx: Context): Promise<Response|null> {
-    if (!this.patterns.some(pattern => pattern.test(req.url))) {
+    // Match against the normalized URL, so same-origin URLs look the same however they're written.
+    // A negated glob excludes the URL even if one of the patterns matches it.
+    const url = this.adapter.normalizeUrl(req.url);
+    if (this.globs.excludes(url) ||
+        !(this.patterns.some(pattern => pattern.test(url)) || this.globs.matches(url))) {
       return null;
     }
 
@@ -230,115 +261,306 @@ export class DataGroup {
         return null;
       case 'GET':
       case 'HEAD':
-        // Look for a response in the cache. If one exists, return it.
-        const cache = await this.cache;
-        let res = await cache.match(req);
-        if (res !== undefined) {
-          // A response was found in the cache, but its age is not yet known. Look it up.
-          try {
-            const ageTable = await this.ageTable;
-            const age = this.adapter.time - (await ageTable.read<AgeRecord>(req.url)).age;
-            // If the response is young enough, use it.
-            if (age <= this.config.maxAge) {
-              // Successful match from the cache. Use the response, after marking it as having
-              // been accessed.
-              lru.accessed(req.url);
-              return res;
-            }
-
-            // Otherwise, or if there was an error, assume the response is expired, and evict it.
-          } catch (e) {
-            // Some error getting the age for the response. Assume it's expired.
-          }
-
-          lru.remove(req.url);
-          await this.clearCacheForUrl(req.url);
-
-          // TODO: avoid duplicate in event of network timeout, maybe.
-          await this.syncLru();
-        }
-
-        // No match from the cache. Go to the network. Note that this is not an 'await'
-        // call, networkFetch is the actual Promise. This is due to timeout handling.
-        const networkFetch = this.scope.fetch(req);
-
-        if (this.config.timeoutMs !== undefined) {
-          const timeout = this.adapter.timeout(this.config.timeoutMs) as Promise<undefined>;
-          res = await Promise.race([networkFetch, timeout]);
-        } else {
-          // Do a plain fetch.
-          res = await networkFetch;
-        }
-
-        // Define the operation for caching the response from the server. This has to happen all
-        // at once, so that the cache and LRU tracking remain in sync. If the network request
-        // completes before the timeout, this logic will be run inline with the response flow.
-        // If the request times out on the server, an error will be returned but the real network
-        // request will still be running in the background, to be cached when it completes.
-        const cacheResponse = async (res: Response) => {
-          // Only cache successful responses.
-          if (!res.ok) {
-            return;
-          }
-
-          if (lru.size >= this.config.maxSize) {
-            // The cache is too big, evict something.
-            const evictedUrl = lru.pop();
-            if (evictedUrl !== null) {
-              await this.clearCacheForUrl(evictedUrl);
-            }
-          }
-
-          // TODO: evaluate for possible race conditions during flaky network periods.
-
-          // Mark this resource as having been accessed recently. This ensures it won't be evicted
-          // until enough other resources are requested that it falls off the end of the LRU chain.
-          lru.accessed(req.url);
-
-          // Store the response in the cache.
-          await cache.put(req, res);
-
-          // Store the age of the cache.
-          const ageTable = await this.ageTable;
-          await ageTable.write(req.url, {age: this.adapter.time});
-
-          // Sync the LRU chain to non-volatile storage.
-          await this.syncLru();
-        };
-
-        // Since fetch() will always return a response, undefined indicates a timeout.
-        if (res === undefined) {
-          // The request timed out. Return a Gateway Timeout error.
-          res = this.adapter.newResponse(null, {status: 504, statusText: 'Gateway Timeout'});
-
-          // Cache the network response eventually.
-          ctx.waitUntil((async () => {
-            try {
-              cacheResponse(await networkFetch);
-            } catch (e) {
-              // TODO: handle this error somehow?
-            }
-          })());
+        // Handle the request with whichever strategy the group was configured to use.
+        switch (this.config.strategy) {
+          case 'freshness':
+            return this.handleFetchWithFreshness(req, ctx, lru);
+          case 'performance':
+            return this.handleFetchWithPerformance(req, ctx, lru);
+          default:
+            return this.handleFetchWithMaxAge(req, ctx, lru);
         }
-
-        // The request completed in time, so cache it inline with the response flow.
-        // Make sure to clone it so the real response can still be returned to the user.
-        await cacheResponse(res.clone());
-        return res;
       default:
         // This was a mutating request. Assume the cache for this URL is no longer valid.
-        const wasCached = lru.remove(req.url);
+        const key = this.matcher.keyFor(url);
+        const wasCached = lru.remove(key);
         
         // If there was a cached entry, remove it.
         if (wasCached) {
-          await this.clearCacheForUrl(req.url);
+          await this.clearCacheForUrl(key);
         }
 
         // Sync the LRU chain to non-volatile storage.
         await this.syncLru();
 
         // Finally, fall back on the network.
-        return this.scope.fetch(req);
+        if (!this.config.outbox) {
+          return this.scope.fetch(req);
+        }
+
+        // Writes queued earlier have to reach the server first. If they still can't, this one
+        // joins the back of the queue rather than overtaking them.
+        if (await this.outbox.size() > 0 && !await this.outbox.replay()) {
+          return this.outbox.enqueue(this.config.name, req);
+        }
+
+        // Sending the request uses up its body, so hold on to a copy in case it has to be queued.
+        const copy = req.clone();
+        try {
+          return await this.scope.fetch(req);
+        } catch (err) {
+          // The network is unreachable. Rather than lose the write, send it once it's back.
+          return this.outbox.enqueue(this.config.name, copy);
+        }
+    }
+  }
+
+  /**
+   * Serve the request from the cache for as long as the cached response is younger than
+   * `maxAge`, and go to the network otherwise.
+   */
+  private async handleFetchWithMaxAge(req: Request, ctx: Context, lru: LruList): Promise<Response> {
+    // Look for a response in the cache. If a fresh one exists, return it.
+    const fromCache = await this.loadFromCache(req, lru);
+    if (fromCache !== null && !fromCache.stale) {
+      return fromCache.res;
+    }
+
+    // No fresh match from the cache. Go to the network, keeping any stale response around in
+    // case the network fails.
+    return this.fetchAndCache(req, ctx, lru, fromCache);
+  }
+
+  /**
+   * Serve the request from the network, falling back on the cached response only if the
+   * network fails or times out.
+   */
+  private async handleFetchWithFreshness(req: Request, ctx: Context, lru: LruList): Promise<Response> {
+    const [timeoutFetch, networkFetch] = this.networkFetchWithTimeout(req);
+
+    // Wait for the network. An outright failure (such as the device being offline) is told apart
+    // from a timeout, as only a timeout leaves a request which may still come through.
+    let res: Response|undefined;
+    let failed = false;
+    let error: any;
+    try {
+      res = await timeoutFetch;
+    } catch (err) {
+      failed = true;
+      error = err;
+    }
+
+    if (res !== undefined && !this.isServerError(res)) {
+      // The request completed in time, so cache it inline with the response flow. Make sure
+      // to clone it so the real response can still be returned to the user.
+      await this.cacheResponse(req, res.clone(), lru);
+      return res;
+    }
+
+    // The network didn't come through in time. If it eventually does, the response should
+    // still be cached for next time.
+    if (res === undefined && !failed) {
+      ctx.waitUntil(this.safeCacheResponse(req, networkFetch, lru));
+    }
+
+    // In the meantime, fall back on the cached copy if there is one.
+    const fromCache = await this.loadFromCache(req, lru);
+    if (fromCache !== null) {
+      return fromCache.stale ? this.markAsStale(fromCache.res) : fromCache.res;
+    }
+    if (res !== undefined) {
+      // The server responded with an error, and there is nothing better to offer.
+      return res;
+    }
+    if (failed) {
+      // Nothing to fall back on, so the page sees the failure just as it would without the SW.
+      throw error;
+    }
+    return this.adapter.newResponse(null, {status: 504, statusText: 'Gateway Timeout'});
+  }
+
+  /**
+   * Serve the request from the cache immediately if possible, and refresh the cached copy from
+   * the network in the background.
+   */
+  private async handleFetchWithPerformance(req: Request, ctx: Context, lru: LruList): Promise<Response> {
+    const fromCache = await this.loadFromCache(req, lru);
+    if (fromCache !== null && !fromCache.stale) {
+      // Kick off a refresh of the cached copy, but don't make the user wait for it.
+      ctx.waitUntil(this.safeCacheResponse(req, this.scope.fetch(req), lru));
+      return fromCache.res;
+    }
+
+    // Nothing fresh was cached, so there's no choice but to wait on the network.
+    return this.fetchAndCache(req, ctx, lru, fromCache);
+  }
+
+  /**
+   * Look for a usable response in the cache. Responses which are older than `maxAge` are
+   * considered stale. They're kept around for another `staleIfError` milliseconds in case the
+   * network fails, after which they're evicted and `null` is returned instead.
+   */
+  private async loadFromCache(req: Request, lru: LruList): Promise<CachedResponse|null> {
+    const cache = await this.cache;
+    const res = await cache.match(this.matcher.requestFor(req), this.matcher.queryOptions);
+    if (res === undefined) {
+      return null;
+    }
+
+    // A response was found in the cache, but its age is not yet known. Look it up.
+    const url = this.matcher.keyFor(req.url);
+    try {
+      const ageTable = await this.ageTable;
+      const age = this.adapter.time - (await ageTable.read<AgeRecord>(url)).age;
+      // If the response is young enough, use it.
+      if (age <= this.config.maxAge + (this.config.staleIfError || 0)) {
+        // Successful match from the cache. Use the response, after marking it as having
+        // been accessed.
+        lru.accessed(url);
+        return {res, age, stale: age > this.config.maxAge};
+      }
+
+      // Otherwise, or if there was an error, assume the response is expired, and evict it.
+    } catch (e) {
+      // Some error getting the age for the response. Assume it's expired.
+    }
+
+    lru.remove(url);
+    await this.clearCacheForUrl(url);
+
+    // TODO: avoid duplicate in event of network timeout, maybe.
+    await this.syncLru();
+    return null;
+  }
+
+  /**
+   * Go to the network for the request, and cache the response. If the network takes longer than
+   * `timeoutMs`, a Gateway Timeout error is returned and the response is cached in the background.
+   *
+   * If a stale cached response is available, it's returned instead whenever the network fails.
+   */
+  private async fetchAndCache(req: Request, ctx: Context, lru: LruList, stale: CachedResponse|null = null): Promise<Response> {
+    const [timeoutFetch, networkFetch] = this.networkFetchWithTimeout(req);
+
+    let res: Response|undefined;
+    try {
+      res = await timeoutFetch;
+    } catch (err) {
+      // The network request failed outright. Without a stale response to fall back on, there's
+      // nothing else to do but fail.
+      if (stale === null) {
+        throw err;
+      }
+      return this.markAsStale(stale.res);
+    }
+
+    // Since fetch() will always return a response, undefined indicates a timeout.
+    if (res === undefined) {
+      // Cache the network response eventually.
+      ctx.waitUntil(this.safeCacheResponse(req, networkFetch, lru));
+
+      // The request timed out. Return the stale response if there is one, or a Gateway
+      // Timeout error if not.
+      if (stale !== null) {
+        return this.markAsStale(stale.res);
+      }
+      return this.adapter.newResponse(null, {status: 504, statusText: 'Gateway Timeout'});
+    }
+
+    // A server error is no better than a network failure if a stale response is available.
+    if (stale !== null && this.isServerError(res)) {
+      return this.markAsStale(stale.res);
+    }
+
+    // The request completed in time, so cache it inline with the response flow.
+    // Make sure to clone it so the real response can still be returned to the user.
+    await this.cacheResponse(req, res.clone(), lru);
+    return res;
+  }
+
+  /**
+   * Determine whether a response from the network indicates a failure of the server, which
+   * justifies serving a stale response in its place.
+   */
+  private isServerError(res: Response): boolean {
+    return res.status >= 500;
+  }
+
+  /**
+   * Copy a stale response from the cache, adding a header so the application can tell that
+   * the data it's receiving is out of date.
+   */
+  private async markAsStale(res: Response): Promise<Response> {
+    // An opaque response can't be read or copied, so it's served as it is.
+    if (res.type === 'opaque') {
+      return res;
+    }
+    const headers: {[name: string]: string} = {};
+    res.headers.forEach((value: string, name: string) => {
+      headers[name] = value;
+    });
+    headers[STALE_HEADER] = 'true';
+    return this.adapter.newResponse(await res.arrayBuffer(), {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+    });
+  }
+
+  /**
+   * Start a network request, and race it against `timeoutMs` if configured. Returns both the raced
+   * Promise (which resolves to `undefined` on timeout) and the underlying network request, which
+   * will still complete in the background after a timeout.
+   */
+  private networkFetchWithTimeout(req: Request): [Promise<Response|undefined>, Promise<Response>] {
+    // Note that this is not an 'await' call, networkFetch is the actual Promise. This is due to
+    // timeout handling.
+    const networkFetch = this.scope.fetch(req);
+    if (this.config.timeoutMs === undefined) {
+      return [networkFetch, networkFetch];
+    }
+    const timeout = this.adapter.timeout(this.config.timeoutMs) as Promise<undefined>;
+    return [Promise.race([networkFetch, timeout]), networkFetch];
+  }
+
+  /**
+   * Cache the response from the server. This has to happen all at once, so that the cache and
+   * LRU tracking remain in sync.
+   */
+  private async cacheResponse(req: Request, res: Response, lru: LruList): Promise<void> {
+    // Only cache successful responses. An opaque response to a cross-origin `no-cors` request hides
+    // its status, so it has to be taken on trust.
+    if (!res.ok && res.type !== 'opaque') {
+      return;
+    }
+
+    const url = this.matcher.keyFor(req.url);
+    if (!lru.has(url) && lru.size >= this.config.maxSize) {
+      // The cache is too big, evict something.
+      const evictedUrl = lru.pop();
+      if (evictedUrl !== null) {
+        await this.clearCacheForUrl(evictedUrl);
+      }
+    }
+
+    // TODO: evaluate for possible race conditions during flaky network periods.
+
+    // Mark this resource as having been accessed recently. This ensures it won't be evicted
+    // until enough other resources are requested that it falls off the end of the LRU chain.
+    lru.accessed(url);
+
+    // Store the response in the cache.
+    const cache = await this.cache;
+    await cache.put(this.matcher.requestFor(req), res);
+
+    // Store the age of the cache.
+    const ageTable = await this.ageTable;
+    await ageTable.write(url, {age: this.adapter.time});
+
+    // Sync the LRU chain to non-volatile storage.
+    await this.syncLru();
+  }
+
+  /**
+   * Cache a response which is still in flight, ignoring any errors. Used when the response
+   * is cached in the background.
+   */
+  private async safeCacheResponse(req: Request, res: Promise<Response>, lru: LruList): Promise<void> {
+    try {
+      await this.cacheResponse(req, await res, lru);
+    } catch (err) {
+      // Nobody is waiting on this, so there's no one to report the error to but the log.
+      this.adapter.logger.warn('DataGroup', `Failed to cache ${req.url} in the background`, err);
     }
   }
 
@@ -353,9 +575,10 @@ export class DataGroup {
 
   private async clearCacheForUrl(url: string): Promise<void> {
     const cache = await this.cache;
+    // Every variant of the response goes, whatever it varies on.
     await Promise.all([
-      cache.delete(this.adapter.newRequest(url, {method: 'GET'})),
-      cache.delete(this.adapter.newRequest(url, {method: 'HEAD'})),
+      cache.delete(this.adapter.newRequest(url, {method: 'GET'}), {ignoreVary: true}),
+      cache.delete(this.adapter.newRequest(url, {method: 'HEAD'}), {ignoreVary: true}),
     ]);
     const ageTable = await this.ageTable;
     await ageTable.delete(url);
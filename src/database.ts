@@ -7,6 +7,11 @@ export interface Table {
   read(key: string): Promise<any>;
 
   write(key: string, value: Object): Promise<void>;
+
+  /**
+   * Write several keys together. Either all of the values are committed, or none of them are.
+   */
+  writeAll(values: {[key: string]: Object}): Promise<void>;
 }
 
 export interface Database {
@@ -1,6 +1,18 @@
 import {Adapter} from './adapter';
 import {Database, Table, NotFound} from './database';
 
+/**
+ * Key under which a batch of writes is journaled while it's being applied.
+ */
+const JOURNAL_KEY = 'ngsw:journal';
+
+/**
+ * Prefix of the names of the caches which hold the tables.
+ */
+export const CACHE_DATABASE_PREFIX = 'ngsw:db:';
+
+type Journal = {[key: string]: string};
+
 export class CacheDatabase implements Database {
   private tables = new Map<string, Promise<CacheTable>>();
 
@@ -10,7 +22,7 @@ export class CacheDatabase implements Database {
     if (this.tables.has(name)) {
       this.tables.delete(name);
     }
-    return this.scope.caches.delete(`ngsw:db:${name}`);
+    return this.scope.caches.delete(`${CACHE_DATABASE_PREFIX}${name}`);
   }
 
   list(): Promise<string[]> {
@@ -19,7 +31,7 @@ export class CacheDatabase implements Database {
       .caches
       .keys()
       .then(keys => keys
-        .filter(key => key.startsWith('ngsw:db:'))
+        .filter(key => key.startsWith(CACHE_DATABASE_PREFIX))
       );
   }
 
@@ -28,7 +40,7 @@ export class CacheDatabase implements Database {
       const table = this
         .scope
         .caches
-        .open(`ngsw:db:${name}`)
+        .open(`${CACHE_DATABASE_PREFIX}${name}`)
         .then(cache => new CacheTable(name, cache, this.adapter));
       this.tables.set(name, table);
     }
@@ -37,6 +49,17 @@ export class CacheDatabase implements Database {
 }
 
 export class CacheTable implements Table {
+  /**
+   * Resolves once any batch of writes left unfinished by a previous instance of the SW has been
+   * applied. Every operation waits for this first.
+   */
+  private recovered: Promise<void>|null = null;
+
+  /**
+   * Resolves once the last batch handed to `writeAll` has been applied (or has failed). There's
+   * only the one journal, so batches take turns.
+   */
+  private batches: Promise<void> = Promise.resolve();
 
   constructor(readonly table: string, private cache: Cache, private adapter: Adapter) {}
 
@@ -45,20 +68,24 @@ export class CacheTable implements Table {
   }
 
   'delete'(key: string): Promise<boolean> {
-    return this.cache.delete(this.request(key));
+    return this
+      .recover()
+      .then(() => this.cache.delete(this.request(key)));
   }
 
   keys(): Promise<string[]> {
     return this
-      .cache
-      .keys()
-      .then(keys => keys.map(key => key.substr(1)));
+      .recover()
+      .then(() => this.cache.keys())
+      .then(keys => keys
+        .map(key => key.substr(1))
+        .filter(key => key !== JOURNAL_KEY));
   }
 
   read(key: string): Promise<any> {
     return this
-      .cache
-      .match(this.request(key))
+      .recover()
+      .then(() => this.cache.match(this.request(key)))
       .then(res => {
         if (res === undefined) {
           return Promise.reject(new NotFound(this.table, key));
@@ -68,9 +95,61 @@ export class CacheTable implements Table {
   }
 
   write(key: string, value: Object): Promise<void> {
+    return this
+      .recover()
+      .then(() => this.put(key, JSON.stringify(value)));
+  }
+
+  writeAll(values: {[key: string]: Object}): Promise<void> {
+    // The Cache API can't write several entries atomically, but it can write a single one. So
+    // the whole batch is first written as one journal entry, and only then applied key by key.
+    // If the SW is stopped partway through, the journal is still there to be replayed by the
+    // next instance.
+    const batch = this
+      .batches
+      .then(() => this.recover())
+      .then(() => {
+        // Serialize everything up front, so a value which can't be stored fails the batch before
+        // anything is written.
+        const journal: Journal = {};
+        Object.keys(values).forEach(key => {
+          journal[key] = JSON.stringify(values[key]);
+        });
+        return this
+          .put(JOURNAL_KEY, JSON.stringify(journal))
+          .then(() => this.applyJournal(journal));
+      });
+
+    // The next batch waits for this one, whether or not it succeeds.
+    this.batches = batch.catch(() => undefined);
+    return batch;
+  }
+
+  private put(key: string, body: string): Promise<void> {
     return this
       .cache
-      .put(this.request(key), this.adapter.newResponse(JSON.stringify(value)));
+      .put(this.request(key), this.adapter.newResponse(body));
   }
 
+  private recover(): Promise<void> {
+    if (this.recovered === null) {
+      this.recovered = this
+        .cache
+        .match(this.request(JOURNAL_KEY))
+        .then(res => {
+          if (res === undefined) {
+            return;
+          }
+          return res.json().then((journal: Journal) => this.applyJournal(journal));
+        });
+    }
+    return this.recovered;
+  }
+
+  private applyJournal(journal: Journal): Promise<void> {
+    return Promise
+      .all(Object.keys(journal).map(key => this.put(key, journal[key])))
+      .then(() => this.cache.delete(this.request(JOURNAL_KEY)))
+      .then(() => undefined);
+  }
 }
\ No newline at end of file
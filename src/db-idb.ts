@@ -0,0 +1,228 @@
+import {Database, Table, NotFound} from './database';
+
+/**
+ * Name of the IndexedDB database which backs all tables.
+ */
+const DB_NAME = 'ngsw:db';
+
+/**
+ * The schema never changes, so the version never does either. Creating or deleting a table doesn't
+ * need a version change, which would race with any other context (such as another version of the
+ * SW) that has the database open.
+ */
+const DB_VERSION = 1;
+
+/**
+ * The single object store which holds every table. An entry's key is prefixed with its table's
+ * name, and each table also has a marker entry under the bare name, so empty tables can be listed.
+ */
+const STORE = 'entries';
+
+/**
+ * Separates a table's name from the keys of its entries. Table names are URI-encoded, so they
+ * can't contain it themselves.
+ */
+const SEPARATOR = '/';
+
+export class IndexedDbDatabase implements Database {
+  private tables = new Map<string, Promise<IndexedDbTable>>();
+
+  /**
+   * The current connection to the database, or `null` if one hasn't been opened yet (or was closed
+   * because another context wanted to upgrade or delete the database).
+   */
+  private connection: Promise<IDBDatabase>|null = null;
+
+  constructor(private factory: IDBFactory) {}
+
+  async 'delete'(name: string): Promise<boolean> {
+    this.tables.delete(name);
+    const db = await this.connect();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const existed = (await requestResult(store.get(tableKey(name)))) !== undefined;
+    const prefix = entryPrefix(name);
+    const keys = (await storeKeys(store)).filter(key => key.startsWith(prefix));
+    store.delete(tableKey(name));
+    keys.forEach(key => store.delete(key));
+    await transactionComplete(tx);
+    return existed;
+  }
+
+  async list(): Promise<string[]> {
+    const db = await this.connect();
+    const keys = await storeKeys(db.transaction(STORE, 'readonly').objectStore(STORE));
+    return keys
+      .filter(key => key.indexOf(SEPARATOR) === -1)
+      .map(key => decodeURIComponent(key));
+  }
+
+  open(name: string): Promise<Table> {
+    if (!this.tables.has(name)) {
+      const table = this.createTable(name);
+      this.tables.set(name, table);
+      // Don't hold on to a failure, so the next attempt to open the table starts afresh.
+      table.catch(() => {
+        if (this.tables.get(name) === table) {
+          this.tables.delete(name);
+        }
+      });
+    }
+    return this.tables.get(name)!;
+  }
+
+  private async createTable(name: string): Promise<IndexedDbTable> {
+    const db = await this.connect();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(true, tableKey(name));
+    await transactionComplete(tx);
+    return new IndexedDbTable(name, () => this.connect());
+  }
+
+  private connect(): Promise<IDBDatabase> {
+    if (this.connection === null) {
+      const connection = this.openDb();
+      this.connection = connection;
+      // Let the next operation try again, rather than fail the same way forever.
+      connection.catch(() => {
+        if (this.connection === connection) {
+          this.connection = null;
+        }
+      });
+    }
+    return this.connection;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+      const req = this.factory.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db: IDBDatabase = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE);
+        }
+      };
+      req.onsuccess = () => {
+        const db: IDBDatabase = req.result;
+        // If another context (such as a newer SW) needs the database, get out of its way. The next
+        // operation will reconnect.
+        db.onversionchange = () => {
+          db.close();
+          this.connection = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
+
+export class IndexedDbTable implements Table {
+
+  private prefix: string;
+
+  constructor(readonly table: string, private connect: () => Promise<IDBDatabase>) {
+    this.prefix = entryPrefix(table);
+  }
+
+  async 'delete'(key: string): Promise<boolean> {
+    const tx = await this.transaction('readwrite');
+    const store = tx.objectStore(STORE);
+    const existing = await requestResult(store.get(this.prefix + key));
+    if (existing === undefined) {
+      return false;
+    }
+    store.delete(this.prefix + key);
+    await transactionComplete(tx);
+    return true;
+  }
+
+  async keys(): Promise<string[]> {
+    const tx = await this.transaction('readonly');
+    const keys = await storeKeys(tx.objectStore(STORE));
+    return keys
+      .filter(key => key.startsWith(this.prefix))
+      .map(key => key.substr(this.prefix.length));
+  }
+
+  async read(key: string): Promise<any> {
+    const tx = await this.transaction('readonly');
+    const value = await requestResult(tx.objectStore(STORE).get(this.prefix + key));
+    if (value === undefined) {
+      throw new NotFound(this.table, key);
+    }
+    return value;
+  }
+
+  async write(key: string, value: Object): Promise<void> {
+    const tx = await this.transaction('readwrite');
+    tx.objectStore(STORE).put(value, this.prefix + key);
+    await transactionComplete(tx);
+  }
+
+  async writeAll(values: {[key: string]: Object}): Promise<void> {
+    // All of the writes happen within a single transaction, which IndexedDB commits atomically.
+    const tx = await this.transaction('readwrite');
+    const store = tx.objectStore(STORE);
+    const complete = transactionComplete(tx);
+    try {
+      Object.keys(values).forEach(key => store.put(values[key], this.prefix + key));
+    } catch (err) {
+      // A value which can't be stored throws synchronously, after earlier writes were already
+      // queued. Abort so none of them are committed, and report the original error rather than
+      // the abort.
+      tx.abort();
+      await complete.catch(() => undefined);
+      throw err;
+    }
+    await complete;
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await this.connect();
+    return db.transaction(STORE, mode);
+  }
+}
+
+function tableKey(table: string): string {
+  return encodeURIComponent(table);
+}
+
+function entryPrefix(table: string): string {
+  return tableKey(table) + SEPARATOR;
+}
+
+/**
+ * Every key in `store`, across all tables.
+ */
+function storeKeys(store: IDBObjectStore): Promise<string[]> {
+  const req = store.openCursor();
+  return new Promise<string[]>((resolve, reject) => {
+    const keys: string[] = [];
+    req.onsuccess = () => {
+      const cursor: IDBCursor|null = req.result;
+      if (cursor === null) {
+        resolve(keys);
+        return;
+      }
+      keys.push(cursor.key as string);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function requestResult(req: IDBRequest): Promise<any> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionComplete(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
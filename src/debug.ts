@@ -0,0 +1,69 @@
+import {Adapter} from './adapter';
+import {Debuggable, LogEntry} from './api';
+
+/**
+ * The URL, relative to the origin, at which the SW answers with a dump of its internal state.
+ */
+export const DEBUG_URL = '/ngsw/state';
+
+/**
+ * Serves a human-readable description of what the SW thinks is going on, for diagnosing problems
+ * in the field, along with the events recorded by the `Logger`.
+ */
+export class DebugHandler {
+  constructor(private source: Debuggable, private adapter: Adapter) {}
+
+  /**
+   * Whether the given request is for the debug endpoint.
+   */
+  handles(req: Request): boolean {
+    // Only the SW's own origin is normalized down to a path, so the same path on any other origin
+    // doesn't match.
+    const path = this.adapter.normalizeUrl(req.url).split('?')[0];
+    return req.method === 'GET' && path === DEBUG_URL;
+  }
+
+  async handleFetch(req: Request): Promise<Response> {
+    const [state, versions, idle, log] = await Promise.all([
+      this.source.debugState(),
+      this.source.debugVersions(),
+      this.source.debugIdleState(),
+      this.adapter.logger.events(),
+    ]);
+
+    const msgState = `NGSW Debug Info:
+
+Driver state: ${state.state} (${state.why})
+Latest manifest hash: ${state.latestHash || 'none'}`;
+
+    const msgVersions = versions
+      .map(version => `=== Version ${version.hash} ===
+
+Okay: ${version.okay}
+Clients: ${version.clients.join(', ')}`)
+      .join('\n\n');
+
+    const msgIdle = `=== Idle Task Queue ===
+Tasks in queue: ${idle.queue}
+Last failure: ${idle.lastFailure || 'none'}`;
+
+    const msgLog = `=== Debug Log ===
+${this.formatLog(log)}`;
+
+    return this.adapter.newResponse(
+      [msgState, msgVersions, msgIdle, msgLog].filter(msg => msg.length > 0).join('\n\n') + '\n',
+      {headers: {'Content-Type': 'text/plain'}});
+  }
+
+  private formatLog(log: LogEntry[]): string {
+    if (log.length === 0) {
+      return 'Empty';
+    }
+    return log
+      .map(entry => {
+        const line = `[${new Date(entry.time).toISOString()}] ${entry.level.toUpperCase()} ${entry.source}: ${entry.message}`;
+        return (entry.stack !== undefined) ? `${line}\n${entry.stack}` : line;
+      })
+      .join('\n');
+  }
+}
@@ -1,9 +1,15 @@
 import {Adapter, Context} from './adapter';
-import {CacheState, UpdateSource} from './api';
+import {CacheState, Debuggable, DebugIdleState, DebugState, DebugVersion, LogEntry, UpdateSource} from './api';
 import {AppVersion} from './app-version';
 import {Database, Table} from './database';
+import {CACHE_DATABASE_PREFIX, CacheDatabase} from './db-cache';
+import {DebugHandler} from './debug';
 import {IdleScheduler} from './idle';
-import {Manifest, ManifestHash, hashManifest} from './manifest';
+import {Manifest, ManifestHash, PushConfig, hashManifest} from './manifest';
+import {Action, PushSubscriptionDescriptor, StatusEvent, UpdateActivatedEvent, UpdateAvailableEvent, VersionFailedEvent} from './msg';
+import {OUTBOX_SYNC_TAG, Outbox} from './outbox';
+import {PushHandler} from './push';
+import {validateManifest} from './validate';
 
 type ClientId = string;
 
@@ -11,11 +17,27 @@ type ManifestMap = {[hash: string]: Manifest};
 type ClientAssignments = {[id: string]: ManifestHash};
 
 const SYNC_THRESHOLD = 5000;
+const IDLE_CONCURRENCY = 4;
 
 interface LatestEntry {
   latest: string;
 }
 
+export interface DriverOptions {
+  /**
+   * Fetch the manifest and fully prefetch the latest version of the app while the SW is being
+   * installed, and fail the installation if that fails. Otherwise, the SW installs immediately, and
+   * the app is cached lazily, starting from the first fetch.
+   */
+  precacheOnInstall?: boolean;
+
+  /**
+   * Activate as soon as the SW is installed, rather than once no page is using the old SW. Pages
+   * which are already open are then served by this SW, from the versions they were assigned.
+   */
+  skipWaiting?: boolean;
+}
+
 enum DriverReadyState {
   // The SW is operating in a normal mode, responding to all traffic.
   NORMAL,
@@ -29,13 +51,18 @@ enum DriverReadyState {
   SAFE_MODE,
 }
 
-export class Driver implements UpdateSource {
+export class Driver implements Debuggable, UpdateSource {
   /**
    * Tracks the current readiness condition under which the SW is operating. This controls whether the SW
    * attempts to respond to some or all requests.
    */
   state: DriverReadyState = DriverReadyState.NORMAL;
 
+  /**
+   * Explains why the SW is in its current `state`, for debugging.
+   */
+  private stateMessage: string = '(nominal)';
+
   /**
    * Tracks whether the SW is in an initialized state or not. Before initialization, it's not legal to
    * respond to requests.
@@ -68,32 +95,121 @@ export class Driver implements UpdateSource {
    */
   idle: IdleScheduler;
 
-  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, private db: Database) {
+  /**
+   * The most recent idle task to fail, for the debug endpoint.
+   */
+  private lastIdleFailure: string|null = null;
+
+  /**
+   * Serves the debug endpoint, and keeps track of recent errors for it.
+   */
+  debugger: DebugHandler;
+
+  /**
+   * Mutating requests which couldn't reach the network, waiting to be sent again.
+   */
+  outbox: Outbox;
+
+  /**
+   * Handles push messages and the notifications shown for them.
+   */
+  push: PushHandler;
+
+  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, private db: Database, private options: DriverOptions = {}) {
+    this.scope.addEventListener('install', (event) => this.onInstall(event!));
+    this.scope.addEventListener('activate', (event) => this.onActivate(event!));
+
     // Listen to fetch events.
     this.scope.addEventListener('fetch', (event) => this.onFetch(event!));
     this.scope.addEventListener('message', (event) => this.onMessage(event!));
+    this.scope.addEventListener('sync', (event) => this.onSync(event!));
+    this.scope.addEventListener('push', (event) => this.onPush(event!));
+    this.scope.addEventListener('notificationclick', (event) => this.onNotificationClick(event!));
+
+    this.idle = new IdleScheduler(this.adapter, SYNC_THRESHOLD, IDLE_CONCURRENCY);
+    this.idle.onTaskFailed = (name, err) => {
+      this.lastIdleFailure = `${name}: ${err.message}`;
+    };
+    this.debugger = new DebugHandler(this, this.adapter);
+    this.outbox = new Outbox(this.scope, this.adapter, this.db);
+    this.push = new PushHandler(this.scope, this.adapter);
 
-    this.idle = new IdleScheduler(this.adapter, SYNC_THRESHOLD);
+    // Keep the log in the database, so it survives the SW being restarted.
+    this.adapter.logger.attach(this.db);
+  }
+
+  private onInstall(event: ExtendableEvent): void {
+    event.waitUntil(this.install());
+  }
+
+  private async install(): Promise<void> {
+    if (this.options.precacheOnInstall) {
+      // Only the caches are filled in here. The SW which is currently active shares the database,
+      // so this one leaves its own state alone until it takes over. It then finds this version
+      // already cached, whether it starts from scratch or discovers the version as an update.
+      const manifest = await this.fetchLatestManifest();
+      const hash = hashManifest(manifest);
+      try {
+        await new AppVersion(this.scope, this.adapter, this.db, this.idle, this.outbox, manifest, hash).initializeFully();
+      } catch (err) {
+        this.adapter.logger.error('Driver', `Failed to precache version ${hash}, installation fails`, err);
+        throw err;
+      }
+    }
+
+    if (this.options.skipWaiting) {
+      await this.scope.skipWaiting();
+    }
+  }
+
+  private onActivate(event: ExtendableEvent): void {
+    event.waitUntil(this.activate());
+  }
+
+  private async activate(): Promise<void> {
+    // Take control of the pages which no SW controls yet, such as the one which registered this SW,
+    // rather than waiting for them to reload.
+    await this.scope.clients.claim();
+
+    // SWs which kept their state in the Cache API left their tables behind. Once the state lives
+    // somewhere else, nothing reads them any more.
+    if (!(this.db instanceof CacheDatabase)) {
+      const obsolete = (await this.scope.caches.keys()).filter(name => name.startsWith(CACHE_DATABASE_PREFIX));
+      await Promise.all(obsolete.map(name => this.scope.caches.delete(name)));
+      if (obsolete.length > 0) {
+        this.adapter.logger.info('Driver', `Removed ${obsolete.length} tables left in the Cache API`);
+      }
+    }
   }
 
   private onFetch(event: FetchEvent): void {
+    // The debug endpoint is answered regardless of state. It's most useful exactly when the SW is
+    // in trouble.
+    if (this.debugger.handles(event.request)) {
+      event.respondWith(this.debugger.handleFetch(event.request));
+      return;
+    }
+
     // If the SW is in a broken state where it's not safe to handle requests at all, returning causes
     // the request to fall back on the network. This is preferred over `respondWith(fetch(req))` because
     // the latter still shows in DevTools that the request was handled by the SW.
-    // TODO: try to handle DriverReadyState.EXISTING_CLIENTS_ONLY here.
     if (this.state === DriverReadyState.SAFE_MODE) {
       return;
     }
 
+    // In a degraded state, the SW can only continue to serve clients which have already been assigned
+    // a (still valid) version of the app. Any other client is left to the network.
+    if (this.state === DriverReadyState.EXISTING_CLIENTS_ONLY &&
+        (event.clientId === null || !this.clientVersionMap.has(event.clientId))) {
+      return;
+    }
+
     // Past this point, the SW commits to handling the request itself. This could still fail (and result
     // in `state` being set to `SAFE_MODE`), but even in that case the SW will still deliver a response.
     event.respondWith(this.handleFetch(event));
   }
 
   private onMessage(event: ExtendableMessageEvent): void {
-    if (this.state === DriverReadyState.SAFE_MODE) {
-      return;
-    }
     if (!this.adapter.isClient(event.source)) {
       return;
     }
@@ -102,21 +218,112 @@ export class Driver implements UpdateSource {
     if (!data || !data.action) {
       return;
     }
-    switch (data.action) {
-      case 'CHECK_FOR_UPDATE':
-        event.waitUntil(this.checkForUpdate());
-        break;
-      case 'UPDATE':
-        event.waitUntil(this.updateClient(event.source));
+
+    // No actions are handled in safe mode, but a page which is waiting for an answer still gets one.
+    if (this.state === DriverReadyState.SAFE_MODE) {
+      if (data.nonce !== undefined) {
+        const status: StatusEvent = {type: 'STATUS', nonce: data.nonce, status: false, error: 'The SW is in safe mode'};
+        event.source.postMessage(status);
+      }
+      return;
+    }
+    event.waitUntil(this.handleMessage(data, event.source));
+  }
+
+  private onSync(event: SyncEvent): void {
+    if (event.tag !== OUTBOX_SYNC_TAG) {
+      return;
+    }
+    event.waitUntil(this.replayOutbox());
+  }
+
+  private async replayOutbox(): Promise<void> {
+    if (!await this.outbox.replay()) {
+      // Failing the event makes the browser try again later.
+      throw new Error('Requests remain in the outbox, as the network or the server is still unavailable');
+    }
+  }
+
+  private onPush(event: PushEvent): void {
+    // Unlike fetches, pushes are handled even in safe mode, since the browser insists that each one
+    // shows the user something.
+    event.waitUntil(this.push.handlePush(event.data));
+  }
+
+  private onNotificationClick(event: NotificationEvent): void {
+    event.waitUntil(this.handleNotificationClick(event));
+  }
+
+  private async handleNotificationClick(event: NotificationEvent): Promise<void> {
+    // The SW may have been started just for this click, in which case the manifest which says what
+    // to open hasn't been loaded yet.
+    if (this.initialized === null) {
+      this.initialized = this.initialize();
+    }
+    let config: PushConfig|undefined = undefined;
+    try {
+      await this.initialized;
+      if (this.latestHash !== null) {
+        config = this.versions.get(this.latestHash)!.manifest.push;
+      }
+    } catch (_) {
+      // Without a manifest, the defaults will have to do.
+    }
+    await this.push.handleClick(event.notification, config);
+  }
+
+  private async handleMessage(msg: Action, from: Client): Promise<void> {
+    let status: StatusEvent;
+    try {
+      let result: boolean|LogEntry[]|PushSubscriptionDescriptor;
+      switch (msg.action) {
+        case 'CHECK_FOR_UPDATE':
+          result = await this.checkForUpdate();
+          break;
+        case 'UPDATE':
+          result = await this.updateClient(from);
+          break;
+        case 'GET_LOG':
+          result = await this.adapter.logger.events();
+          break;
+        case 'CLEAR_LOG':
+          await this.adapter.logger.clear();
+          result = true;
+          break;
+        case 'SUBSCRIBE_PUSH':
+          result = await this.push.subscribe(msg.applicationServerKey);
+          break;
+        case 'UNSUBSCRIBE_PUSH':
+          result = await this.push.unsubscribe();
+          break;
+        default:
+          // Perhaps from a newer version of the page-side library than this SW.
+          throw new Error(`Unknown action ${(msg as Action).action}`);
+      }
+      status = {type: 'STATUS', nonce: msg.nonce!, status: true, result};
+    } catch (err) {
+      // Report the failure to the page rather than letting it disappear into `waitUntil`.
+      this.adapter.logger.error('Driver', `Failed to handle ${msg.action}`, err);
+      status = {type: 'STATUS', nonce: msg.nonce!, status: false, error: err.message || `${err}`};
+    }
+
+    // Only pages which can correlate the answer with their request get one.
+    if (msg.nonce !== undefined) {
+      from.postMessage(status);
     }
   }
 
-  private async updateClient(client: Client): Promise<void> {
+  private async updateClient(client: Client): Promise<boolean> {
     // Figure out which version the client is on. If it's not on the latest, it needs to be moved.
     const version = this.clientVersionMap.get(client.id);
     if (version === this.latestHash) {
       // Nothing to do, this client is already on the latest version.
-      return;
+      return false;
+    }
+
+    // If the SW is in a degraded state, the latest version isn't safe to move to.
+    if (this.state !== DriverReadyState.NORMAL) {
+      return false;
     }
 
     // Switch the client over.
@@ -133,13 +340,14 @@ export class Driver implements UpdateSource {
 
     const current = this.versions.get(this.latestHash!)!;
 
-    const notice = {
+    const notice: UpdateActivatedEvent = {
       type: 'UPDATE_ACTIVATED',
       previous,
       current: current.appData || this.latestHash!,
     };
 
     client.postMessage(notice);
+    return true;
   }
 
   private async handleFetch(event: FetchEvent): Promise<Response> {
@@ -157,9 +365,11 @@ export class Driver implements UpdateSource {
     try {
       // Wait for initialization.
       await this.initialized;
-    } catch (_) {
+    } catch (err) {
       // Initialization failed. Enter a safe state.
       this.state = DriverReadyState.SAFE_MODE;
+      this.stateMessage = `Initialization failed due to error: ${err.message}`;
+      this.adapter.logger.error('Driver', 'Initialization failed, entering safe mode', err);
       // Since the SW is already committed to responding to the currently active request, 
       return this.scope.fetch(event.request);
     }
@@ -182,6 +392,17 @@ export class Driver implements UpdateSource {
       return this.scope.fetch(event.request);
     }
 
+    // There's no telling when the network comes back, so while anything is left in the outbox, an
+    // idle period gives it another go once its backoff has run out.
+    if (await this.outbox.due()) {
+      this.idle.schedule('replay-outbox', async () => {
+        // A sync or a write may have replayed, and failed, in the meantime.
+        if (await this.outbox.due()) {
+          await this.outbox.replay();
+        }
+      }, {priority: 'high'});
+    }
+
     // Trigger the idle scheduling system. The Promise returned by trigger() will resolve after
     // a specific amount of time has passed. If trigger() hasn't been called again by then (e.g.
     // on a subsequent request), the idle task queue will be drained and the Promise won't resolve
@@ -221,13 +442,14 @@ export class Driver implements UpdateSource {
 
       // Successfully loaded from saved state. This implies a manifest exists, so the update check needs
       // to happen in the background.
-      this.idle.schedule(async () => {
+      this.idle.schedule('check-for-update', async () => {
         await this.checkForUpdate();
         await this.cleanupCaches();
-      });
+      }, {priority: 'high'});
     } catch (_) {
       // Something went wrong. Try to start over by fetching a new manifest from the server and building
       // up an empty initial state.
+      this.adapter.logger.info('Driver', 'No saved state, starting from the latest manifest');
       const manifest = await this.fetchLatestManifest();
       const hash = hashManifest(manifest);
       manifests = {};
@@ -236,11 +458,7 @@ export class Driver implements UpdateSource {
       latest = {latest: hash};
 
       // Save the initial state to the DB.
-      await Promise.all([
-        table.write('manifests', manifests),
-        table.write('assignments', assignments),
-        table.write('latest', latest),
-      ]);
+      await table.writeAll({manifests, assignments, latest});
     }
 
     // At this point, either the state has been loaded successfully, or fresh state with a new copy of
@@ -253,26 +471,10 @@ export class Driver implements UpdateSource {
 
       // If the manifest is newly initialized, an AppVersion may have already been created for it.
       if (!this.versions.has(hash)) {
-        this.versions.set(hash, new AppVersion(this.scope, this.adapter, this.db, this.idle, manifest, hash));
+        this.versions.set(hash, new AppVersion(this.scope, this.adapter, this.db, this.idle, this.outbox, manifest, hash));
       }
     });
 
-    // Wait for the scheduling of initialization of all versions in the manifest. Ordinarily this just
-    // schedules the initializations to happen during the next idle period, but in development mode
-    // this might actually wait for the full initialization.
-    await Promise.all(Object
-      .keys(manifests)
-      .map(async (hash: ManifestHash) => {
-        try {
-          // Attempt to schedule or initialize this version. If this operation is successful, then
-          // initialization either succeeded or was scheduled. If it fails, then full initialization
-          // was attempted and failed.
-          await this.scheduleInitialization(this.versions.get(hash)!);
-        } catch (err) {
-          return false;
-        }
-      }));
-
     // Map each client ID to its associated hash. Along the way, verify that the hash is still valid
     // for that clinet ID. It should not be possible for a client to still be associated with a hash
     // that was since removed from the state.
@@ -291,6 +493,24 @@ export class Driver implements UpdateSource {
     if (!this.versions.has(latest.latest)) {
       throw new Error(`Invariant violated (initialize): latest hash ${latest.latest} has no known manifest`);
     }
+
+    // Wait for the scheduling of initialization of all versions in the manifest. This happens last, as
+    // a version which fails to initialize affects the client assignments and the readiness state. Ordinarily this just
+    // schedules the initializations to happen during the next idle period, but in development mode
+    // this might actually wait for the full initialization.
+    await Promise.all(Object
+      .keys(manifests)
+      .map(async (hash: ManifestHash) => {
+        try {
+          // Attempt to schedule or initialize this version. If this operation is successful, then
+          // initialization either succeeded or was scheduled. If it fails, then full initialization
+          // was attempted and failed.
+          await this.scheduleInitialization(this.versions.get(hash)!);
+        } catch (err) {
+          this.adapter.logger.error('Driver', `Failed to initialize version ${hash}`, err);
+          return false;
+        }
+      }));
   }
 
   private lookupVersionByHash(hash: ManifestHash, debugName: string = 'lookupVersionByHash'): AppVersion {
@@ -312,46 +532,55 @@ export class Driver implements UpdateSource {
       if (this.clientVersionMap.has(clientId)) {
         // There is an assignment for this client already.
         const hash = this.clientVersionMap.get(clientId)!;
+        const appVersion = this.lookupVersionByHash(hash, 'assignVersion');
 
-        // TODO: make sure the version is valid.
-        return this.lookupVersionByHash(hash, 'assignVersion');
-      } else {
-        // This is the first time this client ID has been seen. Whether the SW is in a state
-        // to handle new clients depends on the current readiness state, so check that first.
-        if (this.state !== DriverReadyState.NORMAL) {
-          // It's not safe to serve new clients in the current state. It's possible that this
-          // is an existing client which has not been mapped yet (see below) but even if that
-          // is the case, it's invalid to make an assignment to a known invalid version, even
-          // if that assignment was previously implicit. Return undefined here to let the
-          // caller know that no assignment is possible at this time.
-          return null;
-        }
-        
-        // It's safe to handle this request. Two cases apply. Either:
-        // 1) the browser assigned a client ID at the time of the navigation request, and
-        //    this is truly the first time seeing this client, or
-        // 2) a navigation request came previously from the same client, but with no client
-        //    ID attached. Browsers do this to avoid creating a client under the origin in
-        //    the event the navigation request is just redirected.
-        //
-        // In case 1, the latest version can safely be used.
-        // In case 2, the latest version can be used, with the assumption that the previous
-        // navigation request was answered under the same version. This assumption relies
-        // on the fact that it's unlikely an update will come in between the navigation
-        // request and requests for subsequent resources on that page.
-
-        // First validate the current state.
-        if (this.latestHash === null) {
-          throw new Error(`Invariant violated (assignVersion): latestHash was null`);
+        // Make sure the version is still valid before using it.
+        if (appVersion.okay) {
+          return appVersion;
         }
 
-        // Pin this client ID to the current latest version, indefinitely.
-        this.clientVersionMap.set(clientId, this.latestHash);
+        // The version has been found to be broken since it was assigned. The client can't be
+        // served from it any longer, and is treated the same as a new client from here on.
+        this.clientVersionMap.delete(clientId);
         await this.sync();
+      }
 
-        // Return the latest `AppVersion`.
-        return this.lookupVersionByHash(this.latestHash, 'assignVersion');
+      // This is the first time this client ID has been seen (or the first time since its version
+      // was found to be broken). Whether the SW is in a state to handle new clients depends on
+      // the current readiness state, so check that first.
+      if (this.state !== DriverReadyState.NORMAL) {
+        // It's not safe to serve new clients in the current state. It's possible that this
+        // is an existing client which has not been mapped yet (see below) but even if that
+        // is the case, it's invalid to make an assignment to a known invalid version, even
+        // if that assignment was previously implicit. Return undefined here to let the
+        // caller know that no assignment is possible at this time.
+        return null;
       }
+      
+      // It's safe to handle this request. Two cases apply. Either:
+      // 1) the browser assigned a client ID at the time of the navigation request, and
+      //    this is truly the first time seeing this client, or
+      // 2) a navigation request came previously from the same client, but with no client
+      //    ID attached. Browsers do this to avoid creating a client under the origin in
+      //    the event the navigation request is just redirected.
+      //
+      // In case 1, the latest version can safely be used.
+      // In case 2, the latest version can be used, with the assumption that the previous
+      // navigation request was answered under the same version. This assumption relies
+      // on the fact that it's unlikely an update will come in between the navigation
+      // request and requests for subsequent resources on that page.
+
+      // First validate the current state.
+      if (this.latestHash === null) {
+        throw new Error(`Invariant violated (assignVersion): latestHash was null`);
+      }
+
+      // Pin this client ID to the current latest version, indefinitely.
+      this.clientVersionMap.set(clientId, this.latestHash);
+      await this.sync();
+
+      // Return the latest `AppVersion`.
+      return this.lookupVersionByHash(this.latestHash, 'assignVersion');
     } else {
       // No client ID was associated with the request. This must be a navigation request
       // for a new client. First check that the SW is accepting new clients.
@@ -377,7 +606,18 @@ export class Driver implements UpdateSource {
    */
   private async fetchLatestManifest(): Promise<Manifest> {
     const res = await this.scope.fetch('/ngsw.json?ngsw-cache-bust=' + Math.random());
-    return res.json();
+    // An error page is not a manifest, even if it happens to parse as one.
+    if (!res.ok) {
+      throw new Error(`Manifest fetch failed! (status: ${res.status})`);
+    }
+    let manifest: any;
+    try {
+      manifest = await res.json();
+    } catch (err) {
+      throw new Error(`Manifest is not valid JSON: ${err.message || err}`);
+    }
+    // Nothing downstream of here checks the manifest, so a malformed one must not get any further.
+    return validateManifest(manifest, url => this.adapter.normalizeUrl(url));
   }
   
   /**
@@ -390,17 +630,17 @@ export class Driver implements UpdateSource {
       try {
         await appVersion.initializeFully();
       } catch (err) {
-        this.versionFailed(appVersion, err);
+        await this.versionFailed(appVersion, err);
       }
     };
     // TODO: better logic for detecting localhost.
     if (this.scope.registration.scope.indexOf('://localhost') > -1) {
       return initialize();
     }
-    this.idle.schedule(initialize);
+    this.idle.schedule(appVersion.initializationKey, initialize);
   }
 
-  private versionFailed(appVersion: AppVersion, err: Error): void {
+  private async versionFailed(appVersion: AppVersion, err: Error): Promise<void> {
     // This particular AppVersion is broken. First, find the manifest hash.
     const broken = Array.from(this.versions.entries()).find(([hash, version]) => version === appVersion);
     if (broken === undefined) {
@@ -408,8 +648,7 @@ export class Driver implements UpdateSource {
       return;
     }
     const brokenHash = broken[0];
-
-    // TODO: notify affected apps.
+    this.adapter.logger.error('Driver', `Version ${brokenHash} failed`, err);
 
     // The action taken depends on whether the broken manifest is the active (latest) or not.
     // If so, the SW cannot accept new clients, but can continue to service old ones.
@@ -417,26 +656,43 @@ export class Driver implements UpdateSource {
       // The latest manifest is broken. This means that new clients are at the mercy of the
       // network, but caches continue to be valid for previous versions. This is unfortunate
       // but unavoidable.
-      this.state =  DriverReadyState.EXISTING_CLIENTS_ONLY;
-      
-      // Cancel the binding for these clients.
-      Array
-        .from(this.clientVersionMap.keys())
-        .forEach(clientId => this.clientVersionMap.delete(clientId));
-    } else {
-      // The current version is viable, but this older version isn't. The only possible remedy
-      // is to stop serving the older version and go to the network. Figure out which clients
-      // are affected and put them on the latest.
-      const affectedClients = Array
-        .from(this.clientVersionMap.keys())
-        .filter(clientId => this.clientVersionMap.get(clientId)! === brokenHash);
-      // Push the affected clients onto the latest version.
+      this.state = DriverReadyState.EXISTING_CLIENTS_ONLY;
+      this.stateMessage = `Degraded due to failed initialization of ${brokenHash}: ${err.message}`;
+    }
+
+    // Figure out which clients are affected, as they can no longer be served from the broken version.
+    const affectedClients = Array
+      .from(this.clientVersionMap.keys())
+      .filter(clientId => this.clientVersionMap.get(clientId)! === brokenHash);
+
+    if (this.state === DriverReadyState.NORMAL) {
+      // The latest version is viable, but this older version isn't. The only possible remedy
+      // is to stop serving the older version and go to the network. Push the affected clients
+      // onto the latest version.
       affectedClients.forEach(clientId => this.clientVersionMap.set(clientId, this.latestHash!));
+    } else {
+      // There is no viable version to move the affected clients to, so cancel their binding
+      // and leave them to the network. Clients of other versions are unaffected.
+      affectedClients.forEach(clientId => this.clientVersionMap.delete(clientId));
     }
+
+    await this.sync();
+
+    // Let the affected apps know. Whatever they have already loaded may not match what they'll get
+    // from now on (for example, lazy-loaded chunks), so they'll most likely want to reload.
+    const notice: VersionFailedEvent = {
+      type: 'VERSION_FAILED',
+      version: appVersion.appData || brokenHash,
+      reason: err.message,
+    };
+    const clients = await this.scope.clients.matchAll();
+    clients
+      .filter(client => affectedClients.indexOf(client.id) !== -1)
+      .forEach(client => client.postMessage(notice));
   }
 
   private async setupUpdate(manifest: Manifest, hash: string): Promise<void> {
-    const newVersion = new AppVersion(this.scope, this.adapter, this.db, this.idle, manifest, hash);
+    const newVersion = new AppVersion(this.scope, this.adapter, this.db, this.idle, this.outbox, manifest, hash);
 
     // Try to determine a version that's safe to update from.
     let updateFrom: AppVersion|undefined = undefined;
@@ -456,9 +712,16 @@ export class Driver implements UpdateSource {
     // Future new clients will use this hash as the latest version.
     this.latestHash = hash;
 
+    // If the SW was in a degraded state because the previous latest version was broken, this healthy
+    // version means it can go back to serving new clients.
+    if (this.state === DriverReadyState.EXISTING_CLIENTS_ONLY) {
+      this.state = DriverReadyState.NORMAL;
+      this.stateMessage = '(nominal)';
+    }
+
     await this.sync();
 
-    this.notifyClientsAboutUpdate();
+    await this.notifyClientsAboutUpdate();
   }
 
   async checkForUpdate(): Promise<boolean> {
@@ -499,12 +762,8 @@ export class Driver implements UpdateSource {
       latest: this.latestHash!,
     };
     
-    // Synchronize all of these.
-    await Promise.all([
-      table.write('manifests', manifests),
-      table.write('assignments', assignments),
-      table.write('latest', latest),
-    ]);
+    // Synchronize all of these together, so the state on disk is never left inconsistent.
+    await table.writeAll({manifests, assignments, latest});
   }
 
   async cleanupCaches(): Promise<void> {
@@ -550,9 +809,10 @@ export class Driver implements UpdateSource {
 
         // Clean it up.
         await instance.cleanup();
-      } catch (e) {
+      } catch (err) {
         // Oh well? Not much that can be done here. These caches will be removed when the SW revs
         // its format version, which happens from time to time.
+        this.adapter.logger.warn('Driver', `Failed to clean up version ${version}`, err);
       }
 
       const data = version
@@ -627,13 +887,41 @@ export class Driver implements UpdateSource {
       const current = this.versions.get(version)!;
 
       // Send a notice.
-      const notice = {
+      const notice: UpdateAvailableEvent = {
         type: 'UPDATE_AVAILABLE',
         current: current.appData || version,
         available: next.appData || this.latestHash!,
-      }
+      };
       client.postMessage(notice);
       
     }, Promise.resolve());
   }
+
+  async debugState(): Promise<DebugState> {
+    return {
+      state: DriverReadyState[this.state],
+      why: this.stateMessage,
+      latestHash: this.latestHash,
+    };
+  }
+
+  async debugVersions(): Promise<DebugVersion[]> {
+    return Array.from(this.versions.keys()).map(hash => {
+      const clients = Array
+        .from(this.clientVersionMap.keys())
+        .filter(clientId => this.clientVersionMap.get(clientId) === hash);
+      return {
+        hash,
+        okay: this.versions.get(hash)!.okay,
+        clients,
+      };
+    });
+  }
+
+  async debugIdleState(): Promise<DebugIdleState> {
+    return {
+      queue: this.idle.size,
+      lastFailure: this.lastIdleFailure,
+    };
+  }
 }
@@ -0,0 +1,99 @@
+/**
+ * Encode a string as UTF-8.
+ */
+export function utf8Encode(str: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < str.length; i++) {
+    let code = str.charCodeAt(i);
+    // Combine a surrogate pair into the code point it stands for.
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < str.length) {
+      const low = str.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+          0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f),
+          0x80 | (code & 0x3f));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode UTF-8 bytes into a string. Malformed sequences become U+FFFD.
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let str = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const first = bytes[i];
+    const extra = first < 0x80 ? 0 : first >= 0xf0 ? 3 : first >= 0xe0 ? 2 : first >= 0xc0 ? 1 : -1;
+    let code = extra === 0 ? first : first & (0x3f >> extra);
+    let valid = extra >= 0 && i + extra < bytes.length;
+    for (let j = 1; valid && j <= extra; j++) {
+      valid = (bytes[i + j] & 0xc0) === 0x80;
+      code = (code << 6) | (bytes[i + j] & 0x3f);
+    }
+    if (!valid) {
+      str += '�';
+      i++;
+      continue;
+    }
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      str += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      str += String.fromCharCode(code);
+    }
+    i += extra + 1;
+  }
+  return str;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode bytes as base64, padded with `=`.
+ */
+export function base64Encode(bytes: Uint8Array): string {
+  let str = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple = (bytes[i] << 16) | ((i + 1 < bytes.length ? bytes[i + 1] : 0) << 8) |
+        (i + 2 < bytes.length ? bytes[i + 2] : 0);
+    str += BASE64_ALPHABET[(triple >> 18) & 0x3f] + BASE64_ALPHABET[(triple >> 12) & 0x3f];
+    str += (i + 1 < bytes.length) ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=';
+    str += (i + 2 < bytes.length) ? BASE64_ALPHABET[triple & 0x3f] : '=';
+  }
+  return str;
+}
+
+/**
+ * Decode base64 into bytes. Padding is optional, and anything else outside the alphabet is skipped.
+ */
+export function base64Decode(str: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < str.length; i++) {
+    const value = BASE64_ALPHABET.indexOf(str[i]);
+    if (value === -1) {
+      continue;
+    }
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,69 @@
+const QUESTION_MARK = '[^/]';
+const WILD_SINGLE = '[^/]*';
+const WILD_OPEN = '(?:.+\\/)?';
+const QUERY = '(?:\\?.*)?';
+
+const TO_ESCAPE = /[\\^$.+()[\]{}|]/g;
+
+/**
+ * Convert a glob to the source of an anchored regular expression which matches the same URLs.
+ *
+ * `**` matches any number of path segments (including none), `*` matches anything within a single
+ * segment, and `?` matches a single character within a segment. Whatever query the URL has is
+ * allowed, so `/assets/*.png` matches `/assets/logo.png?v=2` too.
+ */
+export function globToRegex(glob: string): string {
+  const segments = glob.split('/');
+  const regex = segments
+    .map((segment, idx) => {
+      const last = idx === segments.length - 1;
+      if (segment === '**') {
+        // A trailing `**` matches everything below this point. Elsewhere it swallows any number of
+        // whole segments, along with their slashes.
+        return last ? '.*' : WILD_OPEN;
+      }
+      const processed = segment
+        .replace(TO_ESCAPE, '\\$&')
+        .replace(/\*/g, WILD_SINGLE)
+        .replace(/\?/g, QUESTION_MARK);
+      return last ? processed : `${processed}\\/`;
+    })
+    .join('');
+  return `^${regex}${QUERY}$`;
+}
+
+/**
+ * Matches URLs against a list of globs. Globs starting with `!` are negated, and exclude any URL
+ * they match.
+ *
+ * URLs should be normalized first (see `Adapter.normalizeUrl`), so that globs which start with a
+ * slash match URLs on the same origin as the SW. URLs on any other origin can be matched by absolute
+ * globs, such as `https://fonts.example.com/**`.
+ */
+export class GlobMatcher {
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  constructor(globs: string[]) {
+    this.include = globs
+      .filter(glob => !glob.startsWith('!'))
+      .map(glob => new RegExp(globToRegex(glob)));
+    this.exclude = globs
+      .filter(glob => glob.startsWith('!'))
+      .map(glob => new RegExp(globToRegex(glob.substr(1))));
+  }
+
+  /**
+   * Whether one of the (non-negated) globs matches the URL, and no negated glob excludes it.
+   */
+  matches(url: string): boolean {
+    return this.include.some(regex => regex.test(url)) && !this.excludes(url);
+  }
+
+  /**
+   * Whether one of the negated globs excludes the URL.
+   */
+  excludes(url: string): boolean {
+    return this.exclude.some(regex => regex.test(url));
+  }
+}
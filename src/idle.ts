@@ -2,17 +2,49 @@ import {Adapter} from './adapter';
 
 export type IdleTask = () => Promise<void>;
 
+/**
+ * Tasks of a higher priority run before any of a lower one. Tasks of the same priority run in the
+ * order they were scheduled.
+ */
+export type IdlePriority = 'high'|'normal'|'low';
+
+const PRIORITY_ORDER: {[priority: string]: number} = {
+  'high': 0,
+  'normal': 1,
+  'low': 2,
+};
+
+export interface IdleTaskOptions {
+  priority?: IdlePriority;
+}
+
+interface QueuedTask {
+  key: string;
+  priority: IdlePriority;
+  run: IdleTask;
+}
+
 interface ScheduledRun {
   cancel: boolean;
 }
 
 export class IdleScheduler {
-  private queue: IdleTask[] = [];
+  private queue: QueuedTask[] = [];
   private scheduled: ScheduledRun|null = null;
+  private executing: Promise<void>|null = null;
   empty: Promise<void> = Promise.resolve();
   private emptyResolve: Function|null = null;
 
-  constructor(private adapter: Adapter, private threshold: number) {}
+  /**
+   * Called whenever a task fails, after the failure has been logged. A failed task never stops any
+   * of the others from running.
+   */
+  onTaskFailed: ((key: string, err: Error) => void)|null = null;
+
+  /**
+   * @param concurrency how many tasks may run at the same time.
+   */
+  constructor(private adapter: Adapter, private threshold: number, private concurrency: number = Infinity) {}
 
   async trigger(): Promise<void> {
     if (this.queue.length === 0) {
@@ -39,30 +71,38 @@ export class IdleScheduler {
     await this.execute();
   }
 
-  async execute(): Promise<void> {
-    while (this.queue.length > 0) {
-      const queue = this.queue.map(fn => {
-        try {
-          return fn()
-        } catch (e) {
-          // Ignore errors, for now.
-          return Promise.resolve();
-        }
+  /**
+   * Run every queued task, including any which are scheduled along the way, a few at a time.
+   * Calling this while the queue is already being run just waits for that run.
+   */
+  execute(): Promise<void> {
+    if (this.executing === null) {
+      this.executing = this.drain().then(() => {
+        this.executing = null;
+      }, err => {
+        this.executing = null;
+        throw err;
       });
+    }
+    return this.executing;
+  }
 
-      this.queue = [];
-
-      await Promise.all(queue);
-      if (this.emptyResolve !== null) {
-        this.emptyResolve();
-        this.emptyResolve = null;
+  /**
+   * Queue a task under the given key, which also describes it when it's reported. While a task is
+   * waiting to run, scheduling another under the same key doesn't queue it again: the waiting task
+   * just moves up to the higher of the two priorities.
+   */
+  schedule(key: string, task: IdleTask, options: IdleTaskOptions = {}): void {
+    const priority = options.priority || 'normal';
+    const existing = this.queue.find(other => other.key === key);
+    if (existing !== undefined) {
+      if (PRIORITY_ORDER[existing.priority] <= PRIORITY_ORDER[priority]) {
+        return;
       }
-      this.empty = Promise.resolve();
+      this.queue.splice(this.queue.indexOf(existing), 1);
     }
-  }
+    this.enqueue({key, priority, run: existing !== undefined ? existing.run : task});
 
-  schedule(task: IdleTask): void {
-    this.queue.push(task);
     if (this.emptyResolve === null) {
       this.empty = new Promise(resolve => {
         this.emptyResolve = resolve;
@@ -70,7 +110,67 @@ export class IdleScheduler {
     }
   }
 
+  /**
+   * Drop the task waiting to run under the given key, if there is one. A task which has already
+   * started is left to finish.
+   */
+  cancel(key: string): void {
+    this.queue = this.queue.filter(task => task.key !== key);
+    if (this.queue.length === 0 && this.executing === null && this.emptyResolve !== null) {
+      this.emptyResolve();
+      this.emptyResolve = null;
+      this.empty = Promise.resolve();
+    }
+  }
+
   get size(): number {
     return this.queue.length;
   }
-}
\ No newline at end of file
+
+  private enqueue(queued: QueuedTask): void {
+    // Keep the queue in order: after every task of the same or a higher priority.
+    const idx = this.queue.findIndex(other => PRIORITY_ORDER[other.priority] > PRIORITY_ORDER[queued.priority]);
+    if (idx === -1) {
+      this.queue.push(queued);
+    } else {
+      this.queue.splice(idx, 0, queued);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    const running: Promise<void>[] = [];
+    while (this.queue.length > 0 || running.length > 0) {
+      while (this.queue.length > 0 && running.length < this.concurrency) {
+        const done: Promise<void> = this.run(this.queue.shift()!).then(() => {
+          running.splice(running.indexOf(done), 1);
+        });
+        running.push(done);
+      }
+      await Promise.race(running);
+    }
+
+    if (this.emptyResolve !== null) {
+      this.emptyResolve();
+      this.emptyResolve = null;
+    }
+    this.empty = Promise.resolve();
+  }
+
+  /**
+   * Run a single task. Whether it throws or rejects, the failure is reported and goes no further.
+   */
+  private async run(task: QueuedTask): Promise<void> {
+    try {
+      await task.run();
+    } catch (err) {
+      this.adapter.logger.error('IdleScheduler', `Idle task ${task.key} failed`, err);
+      if (this.onTaskFailed !== null) {
+        try {
+          this.onTaskFailed(task.key, err);
+        } catch (hookErr) {
+          this.adapter.logger.error('IdleScheduler', `Reporting the failure of idle task ${task.key} failed`, hookErr);
+        }
+      }
+    }
+  }
+}
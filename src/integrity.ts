@@ -0,0 +1,89 @@
+import {Adapter} from './adapter';
+import {base64Encode} from './encoding';
+import {Sha1} from './sha1';
+
+/**
+ * The WebCrypto algorithms behind the prefixes of Subresource Integrity style hashes.
+ */
+const SRI_ALGORITHMS: {[prefix: string]: string} = {
+  'sha256': 'SHA-256',
+  'sha384': 'SHA-384',
+  'sha512': 'SHA-512',
+};
+
+/**
+ * The algorithm a hash from the manifest was computed with, or `null` if it isn't supported.
+ *
+ * Hashes are written Subresource Integrity style, as the algorithm and the base64 digest joined by a
+ * dash (`sha256-...`). A hash without a prefix is the bare sha1 hex of manifests which predate them.
+ */
+export function hashAlgorithm(hash: string): string|null {
+  const idx = hash.indexOf('-');
+  if (idx === -1) {
+    return 'sha1';
+  }
+  const prefix = hash.substr(0, idx);
+  return SRI_ALGORITHMS.hasOwnProperty(prefix) ? prefix : null;
+}
+
+/**
+ * Hashes a body as it arrives, a chunk at a time.
+ */
+export interface Hasher {
+  update(chunk: Uint8Array): void;
+
+  /**
+   * The hash of every chunk seen: the bare hex for sha1, and Subresource Integrity style for the
+   * others.
+   */
+  digest(): Promise<string>;
+}
+
+/**
+ * Create a `Hasher` which uses the same algorithm, and produces the same format, as `expected`, so
+ * the two can be compared.
+ */
+export function hasherLike(adapter: Adapter, expected: string): Hasher {
+  const algorithm = hashAlgorithm(expected);
+  if (algorithm === null) {
+    throw new Error(`Unsupported hash algorithm (${expected})`);
+  }
+  if (algorithm === 'sha1') {
+    const sha1 = new Sha1();
+    return {
+      update: chunk => sha1.update(chunk),
+      digest: async () => sha1.digest(),
+    };
+  }
+  return new WebCryptoHasher(adapter, algorithm);
+}
+
+/**
+ * Hashes with WebCrypto, through the `Adapter`.
+ *
+ * WebCrypto can only digest a whole buffer, so unlike sha1, which is hashed as it arrives, the chunks
+ * are collected until the end. The whole body is held in memory at that point, however large.
+ */
+class WebCryptoHasher implements Hasher {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+
+  constructor(private adapter: Adapter, private algorithm: string) {}
+
+  update(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  async digest(): Promise<string> {
+    const body = new Uint8Array(this.length);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    });
+    this.chunks = [];
+    const digest = await this.adapter.digest(SRI_ALGORITHMS[this.algorithm], body);
+    return `${this.algorithm}-${base64Encode(new Uint8Array(digest))}`;
+  }
+}
@@ -0,0 +1,134 @@
+import {Adapter} from './adapter';
+import {LogEntry, LogLevel} from './api';
+import {Database, Table} from './database';
+
+/**
+ * How many of the most recent events are kept.
+ */
+const LOG_BUFFER_SIZE = 100;
+
+/**
+ * Records structured events about what the SW is doing, and in particular the errors it would
+ * otherwise swallow.
+ *
+ * Events are kept in a bounded ring buffer. Once attached to a `Database`, the buffer is persisted
+ * there, so events survive the SW being terminated and restarted by the browser.
+ */
+export class Logger {
+  private entries: LogEntry[] = [];
+
+  /**
+   * The table the buffer is persisted to, once attached. Until then, events are only kept in memory.
+   */
+  private table: Promise<Table>|null = null;
+
+  /**
+   * Chain of persistence operations, so writes happen in order and never overlap.
+   */
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(private adapter: Adapter, private size: number = LOG_BUFFER_SIZE) {}
+
+  debug(source: string, message: string, err?: Error): void {
+    this.log('debug', source, message, err);
+  }
+
+  info(source: string, message: string, err?: Error): void {
+    this.log('info', source, message, err);
+  }
+
+  warn(source: string, message: string, err?: Error): void {
+    this.log('warn', source, message, err);
+  }
+
+  error(source: string, message: string, err?: Error): void {
+    this.log('error', source, message, err);
+  }
+
+  log(level: LogLevel, source: string, message: string, err?: Error): void {
+    const entry: LogEntry = {time: this.adapter.time, level, source, message};
+    if (err !== undefined) {
+      entry.message = `${message}: ${errorMessage(err)}`;
+      if (err instanceof Error && err.stack !== undefined) {
+        entry.stack = err.stack;
+      }
+    }
+    this.push([entry]);
+    this.persist();
+  }
+
+  /**
+   * Start persisting the buffer to the given database. Events persisted by a previous instance of
+   * the SW are loaded back in, ahead of any which have been recorded since.
+   */
+  attach(db: Database): void {
+    this.table = db.open('log');
+    this.enqueue(async table => {
+      let previous: LogEntry[] = [];
+      try {
+        previous = await table.read<LogEntry[]>('entries');
+      } catch (_) {
+        // Nothing was persisted yet.
+      }
+      const current = this.entries;
+      this.entries = [];
+      this.push(previous);
+      this.push(current);
+      await table.write('entries', this.entries);
+    });
+  }
+
+  /**
+   * All the buffered events, oldest first.
+   */
+  async events(): Promise<LogEntry[]> {
+    await this.flush();
+    return this.entries.slice();
+  }
+
+  /**
+   * Throw away all buffered events, including persisted ones.
+   */
+  async clear(): Promise<void> {
+    this.entries = [];
+    this.persist();
+    await this.flush();
+  }
+
+  /**
+   * Resolves once all the events recorded so far have been persisted.
+   */
+  flush(): Promise<void> {
+    return this.persisting;
+  }
+
+  private push(entries: LogEntry[]): void {
+    this.entries.push(...entries);
+    if (this.entries.length > this.size) {
+      this.entries.splice(0, this.entries.length - this.size);
+    }
+  }
+
+  private persist(): void {
+    this.enqueue(table => table.write('entries', this.entries));
+  }
+
+  private enqueue(op: (table: Table) => Promise<void>): void {
+    const table = this.table;
+    if (table === null) {
+      return;
+    }
+    // A failure to persist the log can't usefully be logged, so it's ignored. The events are
+    // still in memory, and the next write will try again.
+    this.persisting = this.persisting
+      .then(async () => op(await table))
+      .catch(() => undefined);
+  }
+}
+
+function errorMessage(err: Error): string {
+  if (err instanceof Error) {
+    return err.message;
+  }
+  return `${err}`;
+}
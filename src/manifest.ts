@@ -5,24 +5,89 @@ export type ManifestHash = string;
 export interface Manifest {
   configVersion: number;
   appData?: {[key: string]: string};
+  index?: string;
+  navigationUrls?: NavigationUrlsConfig;
   assetGroups?: AssetGroupConfig[];
   dataGroups?: DataGroupConfig[];
+  push?: PushConfig;
   hashTable: {[url: string]: string};
 }
 
+/**
+ * URLs in the manifest may be relative to the SW scope or absolute, and are matched in normalized
+ * form: same-origin URLs as their path and query, cross-origin URLs in full. Patterns and globs are
+ * tested against this normalized form, so a pattern for a CDN has to include its origin.
+ *
+ * Every URL in `urls` is hashed, and so must be served with CORS even if it's cross-origin, as an
+ * opaque response can't be verified. Cross-origin resources matched only by `patterns` or `globs`
+ * are not hashed, and their opaque (`no-cors`) responses are cached as they are.
+ */
 export interface AssetGroupConfig {
   name: string;
   mode: 'prefetch'|'lazy';
   urls: string[];
   patterns: string[];
+  globs?: string[];
+  match?: CacheMatchConfig;
+  retry?: RetryConfig;
+}
+
+/**
+ * How persistently a prefetch group retries a resource which failed to load because of the network
+ * or a server error (5xx). `attempts` counts the first try. The delay before each retry starts at
+ * `delayMs` and doubles every time, up to `maxDelayMs`.
+ *
+ * Without this, a group gives up on the first failure.
+ */
+export interface RetryConfig {
+  attempts: number;
+  delayMs: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * How requests are matched against cached responses. By default the whole URL has to match, and the
+ * `Vary` header of a response is honored.
+ *
+ * The URLs listed in the manifest are expected to leave out the parts of the query which are ignored.
+ */
+export interface CacheMatchConfig {
+  ignoreSearch?: boolean;
+  ignoreParams?: string[];
+  ignoreVary?: boolean;
+}
+
+/**
+ * How clicks on the notifications shown for push messages are handled. A click focuses a window
+ * which is already open at the notification's URL, or opens one. The URL is `data.url` from the
+ * notification if it has one, or `openUrl`. Without either, any open window of the app will do,
+ * and the scope is opened if there is none.
+ */
+export interface PushConfig {
+  openUrl?: string;
+}
+
+export interface NavigationUrlsConfig {
+  include: string[];
+  exclude: string[];
 }
 
 export interface DataGroupConfig {
   name: string;
   patterns: string[];
+  globs?: string[];
   maxSize: number;
   timeoutMs?: number;
   maxAge: number;
+  staleIfError?: number;
+  strategy?: 'freshness'|'performance';
+  match?: CacheMatchConfig;
+
+  /**
+   * Whether mutating requests which fail to reach the network are queued and sent again once it's
+   * back, instead of failing.
+   */
+  outbox?: boolean;
 }
 
 export function hashManifest(manifest: Manifest): ManifestHash {
@@ -0,0 +1,61 @@
+import {Adapter} from './adapter';
+import {CacheMatchConfig} from './manifest';
+
+/**
+ * Decides which cached response a request is served, according to a group's `CacheMatchConfig`.
+ *
+ * Parts of the query which are ignored are dropped from a URL before it's used as a key, both in the
+ * cache and anywhere else the group tracks it. Whether `Vary` is honored is left to the `Cache`,
+ * through `queryOptions`.
+ */
+export class CacheMatcher {
+  /**
+   * Options for the `Cache` operations which look up responses.
+   */
+  readonly queryOptions: CacheQueryOptions;
+
+  private ignoreSearch: boolean;
+  private ignoreParams: string[];
+
+  constructor(private adapter: Adapter, config: CacheMatchConfig = {}) {
+    this.ignoreSearch = !!config.ignoreSearch;
+    this.ignoreParams = config.ignoreParams || [];
+    this.queryOptions = {
+      ignoreSearch: this.ignoreSearch,
+      ignoreVary: !!config.ignoreVary,
+    };
+  }
+
+  /**
+   * The key which a URL is tracked under: its normalized form, without the ignored parts of its
+   * query.
+   */
+  keyFor(url: string): string {
+    url = this.adapter.normalizeUrl(url);
+    const idx = url.indexOf('?');
+    if (idx === -1 || (!this.ignoreSearch && this.ignoreParams.length === 0)) {
+      return url;
+    }
+    const path = url.substr(0, idx);
+    if (this.ignoreSearch) {
+      return path;
+    }
+    const params = url
+      .substr(idx + 1)
+      .split('&')
+      .filter(param => this.ignoreParams.indexOf(decodeURIComponent(param.split('=')[0])) === -1);
+    return params.length > 0 ? `${path}?${params.join('&')}` : path;
+  }
+
+  /**
+   * The request which a response to `req` is stored under in the cache. Its headers are kept, as
+   * they're what a `Vary` header is checked against.
+   */
+  requestFor(req: Request): Request {
+    const key = this.keyFor(req.url);
+    if (key === this.adapter.normalizeUrl(req.url)) {
+      return req;
+    }
+    return this.adapter.newRequest(key, {headers: req.headers});
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * The message protocol spoken between the SW and the pages it controls.
+ *
+ * This file is shared by the Driver and the page-side client library, so it must contain only types.
+ */
+
+import {LogEntry} from './api';
+
+/**
+ * Identifies a version of the app to the page. This is the version's `appData` if the manifest
+ * declared any, or its manifest hash otherwise.
+ */
+export type VersionDescriptor = Object|string;
+
+/**
+ * Ask the SW to check the server for an updated version of the app.
+ */
+export interface CheckForUpdateAction {
+  action: 'CHECK_FOR_UPDATE';
+  nonce?: number;
+}
+
+/**
+ * Ask the SW to move the sending page onto the latest version of the app.
+ */
+export interface UpdateAction {
+  action: 'UPDATE';
+  nonce?: number;
+}
+
+/**
+ * Ask the SW for the events in its debug log.
+ */
+export interface GetLogAction {
+  action: 'GET_LOG';
+  nonce?: number;
+}
+
+/**
+ * Ask the SW to throw away its debug log.
+ */
+export interface ClearLogAction {
+  action: 'CLEAR_LOG';
+  nonce?: number;
+}
+
+/**
+ * Ask the SW to subscribe to push messages from the server identified by `applicationServerKey`,
+ * its base64url-encoded VAPID public key.
+ */
+export interface SubscribePushAction {
+  action: 'SUBSCRIBE_PUSH';
+  applicationServerKey: string;
+  nonce?: number;
+}
+
+/**
+ * Ask the SW to stop receiving push messages.
+ */
+export interface UnsubscribePushAction {
+  action: 'UNSUBSCRIBE_PUSH';
+  nonce?: number;
+}
+
+/**
+ * An action which a page can ask the SW to perform.
+ */
+export type Action = CheckForUpdateAction|UpdateAction|GetLogAction|ClearLogAction|SubscribePushAction|UnsubscribePushAction;
+
+/**
+ * What the server needs to know to send push messages to a subscription, as given by
+ * `PushSubscription.toJSON()`.
+ */
+export interface PushSubscriptionDescriptor {
+  endpoint: string;
+  keys: {[name: string]: string};
+}
+
+/**
+ * A newer version of the app is available, which the page can switch to with an `UPDATE` action.
+ */
+export interface UpdateAvailableEvent {
+  type: 'UPDATE_AVAILABLE';
+  current: VersionDescriptor;
+  available: VersionDescriptor;
+}
+
+/**
+ * The page has been moved onto a newer version of the app.
+ */
+export interface UpdateActivatedEvent {
+  type: 'UPDATE_ACTIVATED';
+  previous: VersionDescriptor|undefined;
+  current: VersionDescriptor;
+}
+
+/**
+ * The version of the app which the page was using turned out to be broken, and the page can no
+ * longer be served from it.
+ */
+export interface VersionFailedEvent {
+  type: 'VERSION_FAILED';
+  version: VersionDescriptor;
+  reason: string;
+}
+
+/**
+ * A request which was queued in the outbox while the network was unreachable has been sent, and
+ * the server accepted it. `id` is the value of the `ngsw-queued` header on the response the page
+ * got when the request was queued.
+ */
+export interface OutboxReplayedEvent {
+  type: 'OUTBOX_REPLAYED';
+  id: number;
+  method: string;
+  url: string;
+  status: number;
+}
+
+/**
+ * A request which was queued in the outbox has been sent, but the server rejected it. It won't be
+ * sent again.
+ */
+export interface OutboxFailedEvent {
+  type: 'OUTBOX_FAILED';
+  id: number;
+  method: string;
+  url: string;
+  status: number;
+  reason: string;
+}
+
+/**
+ * A push message arrived. `data` is its payload, parsed as JSON if it can be, or its text if not.
+ */
+export interface PushReceivedEvent {
+  type: 'PUSH';
+  data: any;
+}
+
+/**
+ * The outcome of an action sent by the page with a `nonce`, which identifies the action it answers.
+ *
+ * For a `CHECK_FOR_UPDATE`, `result` is whether an update was found. For an `UPDATE`, it's whether
+ * the page was moved onto a newer version. For a `GET_LOG`, it's the logged events. For a
+ * `SUBSCRIBE_PUSH`, it's the subscription, and for an `UNSUBSCRIBE_PUSH`, whether there was one to
+ * cancel. If the action failed, `error` describes why.
+ */
+export interface StatusEvent {
+  type: 'STATUS';
+  nonce: number;
+  status: boolean;
+  result?: boolean|LogEntry[]|PushSubscriptionDescriptor;
+  error?: string;
+}
+
+/**
+ * An event which the SW can send to a page.
+ */
+export type SwEvent = UpdateAvailableEvent|UpdateActivatedEvent|VersionFailedEvent|OutboxReplayedEvent|OutboxFailedEvent|PushReceivedEvent|StatusEvent;
@@ -0,0 +1,251 @@
+import {Adapter} from './adapter';
+import {Database, Table} from './database';
+import {base64Decode, base64Encode} from './encoding';
+import {OutboxFailedEvent, OutboxReplayedEvent} from './msg';
+
+/**
+ * The tag under which replaying the outbox is registered with Background Sync.
+ */
+export const OUTBOX_SYNC_TAG = 'ngsw-outbox';
+
+/**
+ * Header on the response a page gets for a request which was queued instead of sent. Its value is
+ * the id the queued request is reported under once it's replayed.
+ */
+export const OUTBOX_HEADER = 'ngsw-queued';
+
+/**
+ * How long to wait before replaying again after the first failed replay. Each failure in a row
+ * doubles it, up to `OUTBOX_MAX_BACKOFF`.
+ */
+const OUTBOX_BACKOFF = 30 * 1000;
+
+const OUTBOX_MAX_BACKOFF = 60 * 60 * 1000;
+
+/**
+ * A request waiting in the outbox, in a form which can be written to the `Database`.
+ */
+interface OutboxRecord {
+  id: number;
+  group: string;
+  url: string;
+  method: string;
+  headers: {[name: string]: string};
+
+  /**
+   * The body, in base64.
+   */
+  body: string|null;
+}
+
+interface OutboxState {
+  next: number;
+  queue: OutboxRecord[];
+
+  /**
+   * How many replays in a row failed to empty the queue.
+   */
+  failures: number;
+
+  /**
+   * When the next replay is due, as far as `due()` is concerned.
+   */
+  retryAt: number;
+}
+
+/**
+ * Holds on to mutating requests which couldn't be sent because the network was unreachable, and
+ * sends them later, in the order they were made.
+ *
+ * The queue is shared by every data group which opts into it, and by every version of the app, so
+ * that nothing queued is lost when a version is cleaned up.
+ */
+export class Outbox {
+  private table: Promise<Table>;
+
+  // Lazily loaded from the table.
+  private _state: OutboxState|null = null;
+
+  private replaying: Promise<boolean>|null = null;
+
+  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter, db: Database) {
+    this.table = db.open('outbox');
+  }
+
+  /**
+   * How many requests are waiting to be sent.
+   */
+  async size(): Promise<number> {
+    return (await this.state()).queue.length;
+  }
+
+  /**
+   * Whether anything is queued, and the backoff from earlier failed replays has run out. A server
+   * which keeps failing is tried less and less often, rather than on every idle period.
+   */
+  async due(): Promise<boolean> {
+    const state = await this.state();
+    return state.queue.length > 0 && this.adapter.time >= state.retryAt;
+  }
+
+  /**
+   * Queue a request which failed to reach the network, and answer the page with a 202 Accepted in
+   * its place.
+   */
+  async enqueue(group: string, req: Request): Promise<Response> {
+    const headers: {[name: string]: string} = {};
+    req.headers.forEach((value: string, name: string) => {
+      headers[name] = value;
+    });
+    const body = await req.arrayBuffer();
+
+    const state = await this.state();
+    const id = state.next++;
+    state.queue.push({
+      id,
+      group,
+      url: req.url,
+      method: req.method,
+      headers,
+      body: body.byteLength > 0 ? base64Encode(new Uint8Array(body)) : null,
+    });
+    await this.sync();
+    this.adapter.logger.info('Outbox', `Queued ${req.method} ${req.url} until the network is back`);
+
+    await this.registerSync();
+    return this.adapter.newResponse(null, {
+      status: 202,
+      statusText: 'Accepted',
+      headers: {[OUTBOX_HEADER]: `${id}`},
+    });
+  }
+
+  /**
+   * Send the queued requests, oldest first, telling every client how each one went. Resolves to
+   * whether the queue was emptied. If the network is still unreachable, or the server fails with a
+   * 5xx, the request which failed and everything after it stay queued for the next attempt. A
+   * request the server rejects with a 4xx is dropped.
+   *
+   * Only one replay runs at a time. Calling this during a replay just waits for it.
+   */
+  replay(): Promise<boolean> {
+    if (this.replaying === null) {
+      const replayed = this.replayQueue().then(drained => this.backOff(drained).then(() => drained));
+      this.replaying = replayed.then(drained => {
+        this.replaying = null;
+        return drained;
+      }, err => {
+        this.replaying = null;
+        throw err;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayQueue(): Promise<boolean> {
+    const state = await this.state();
+    while (state.queue.length > 0) {
+      const record = state.queue[0];
+      let res: Response;
+      try {
+        res = await this.scope.fetch(this.adapter.newRequest(record.url, {
+          method: record.method,
+          headers: record.headers,
+          body: record.body !== null ? base64Decode(record.body).buffer : undefined,
+        }));
+      } catch (err) {
+        // Still offline. Nothing after this request is sent either, so they keep their order.
+        return false;
+      }
+
+      // A server error may well be temporary, so the request stays queued, along with everything
+      // after it, for the next attempt.
+      if (res.status >= 500) {
+        this.adapter.logger.warn('Outbox', `Replaying ${record.method} ${record.url} failed with ${res.status}, will retry`);
+        return false;
+      }
+
+      // Otherwise the request is done with, whether the server accepted or rejected it.
+      state.queue.shift();
+      await this.sync();
+
+      if (res.ok) {
+        await this.notify({
+          type: 'OUTBOX_REPLAYED',
+          id: record.id,
+          method: record.method,
+          url: record.url,
+          status: res.status,
+        });
+      } else {
+        this.adapter.logger.warn('Outbox', `Replaying ${record.method} ${record.url} failed with ${res.status}`);
+        await this.notify({
+          type: 'OUTBOX_FAILED',
+          id: record.id,
+          method: record.method,
+          url: record.url,
+          status: res.status,
+          reason: `${res.status} ${res.statusText}`,
+        });
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Push back the next replay `due()` allows after a failure, twice as far as after the last one,
+   * and reset once the queue is empty.
+   */
+  private async backOff(drained: boolean): Promise<void> {
+    const state = await this.state();
+    if (drained) {
+      state.failures = 0;
+      state.retryAt = 0;
+    } else {
+      const backoff = OUTBOX_BACKOFF * Math.pow(2, state.failures);
+      state.failures++;
+      state.retryAt = this.adapter.time + Math.min(backoff, OUTBOX_MAX_BACKOFF);
+    }
+    await this.sync();
+  }
+
+  private async notify(event: OutboxReplayedEvent|OutboxFailedEvent): Promise<void> {
+    // The page which made the request may well be gone by now, so every client hears about it.
+    const clients = await this.scope.clients.matchAll();
+    clients.forEach(client => client.postMessage(event));
+  }
+
+  /**
+   * Ask the browser to fire a `sync` event once the network is back, where Background Sync is
+   * supported.
+   */
+  private async registerSync(): Promise<void> {
+    const registration = this.scope.registration;
+    if (registration.sync === undefined) {
+      return;
+    }
+    try {
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+    } catch (err) {
+      // The request is replayed in an idle period, or ahead of the next write, anyway.
+      this.adapter.logger.warn('Outbox', 'Failed to register for Background Sync', err);
+    }
+  }
+
+  private async state(): Promise<OutboxState> {
+    if (this._state === null) {
+      const table = await this.table;
+      try {
+        this._state = await table.read<OutboxState>('state');
+      } catch (_) {
+        this._state = {next: 1, queue: [], failures: 0, retryAt: 0};
+      }
+    }
+    return this._state!;
+  }
+
+  private async sync(): Promise<void> {
+    const table = await this.table;
+    await table.write('state', this._state!);
+  }
+}
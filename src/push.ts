@@ -0,0 +1,74 @@
+import {Adapter} from './adapter';
+import {PushConfig} from './manifest';
+import {PushReceivedEvent, PushSubscriptionDescriptor} from './msg';
+
+/**
+ * Handles push messages, clicks on the notifications shown for them, and the page's requests to
+ * subscribe or unsubscribe.
+ *
+ * Every push is passed on to the pages as a `PUSH` message. A payload which looks like
+ * `{"notification": {"title": ..., ...}}` is also shown as a notification, with the other fields of
+ * `notification` as its options.
+ */
+export class PushHandler {
+  constructor(private scope: ServiceWorkerGlobalScope, private adapter: Adapter) {}
+
+  async handlePush(data: PushMessageData|null): Promise<void> {
+    const payload = (data !== null) ? this.parse(data) : null;
+
+    const msg: PushReceivedEvent = {type: 'PUSH', data: payload};
+    const clients = await this.scope.clients.matchAll();
+    clients.forEach(client => client.postMessage(msg));
+
+    if (payload !== null && typeof payload === 'object' && typeof payload.notification === 'object' &&
+        payload.notification !== null && typeof payload.notification.title === 'string') {
+      const {title, ...options} = payload.notification;
+      await this.scope.registration.showNotification(title, options);
+    }
+  }
+
+  async handleClick(notification: Notification, config: PushConfig = {}): Promise<void> {
+    notification.close();
+
+    const data = notification.data;
+    const url: string|null = (data && typeof data.url === 'string') ? data.url : config.openUrl || null;
+
+    const windows = await this.scope.clients.matchAll({type: 'window'}) as WindowClient[];
+    const existing = (url !== null) ?
+        windows.find(client => this.adapter.normalizeUrl(client.url) === this.adapter.normalizeUrl(url)) :
+        windows[0];
+    if (existing !== undefined) {
+      await existing.focus();
+    } else {
+      await this.scope.clients.openWindow(url || this.scope.registration.scope);
+    }
+  }
+
+  async subscribe(applicationServerKey: string): Promise<PushSubscriptionDescriptor> {
+    // Browsers only allow pushes which show the user a notification.
+    const subscription = await this.scope.registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey,
+    });
+    return subscription.toJSON();
+  }
+
+  async unsubscribe(): Promise<boolean> {
+    const subscription = await this.scope.registration.pushManager.getSubscription();
+    if (subscription === null) {
+      return false;
+    }
+    return subscription.unsubscribe();
+  }
+
+  /**
+   * Read a push payload as JSON, or as text if it isn't JSON.
+   */
+  private parse(data: PushMessageData): any {
+    try {
+      return data.json();
+    } catch (_) {
+      return data.text();
+    }
+  }
+}
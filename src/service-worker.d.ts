@@ -59,6 +59,7 @@ interface Clients {
 	claim(): Promise<any>;
 	get(id: string): Promise<Client>;
 	matchAll(options?: ClientMatchOptions): Promise<Array<Client>>;
+	openWindow(url: string): Promise<WindowClient | null>;
 }
 
 interface ClientMatchOptions {
@@ -66,7 +67,7 @@ interface ClientMatchOptions {
 	type?: ClientMatchTypes;
 }
 
-interface WindowClient {
+interface WindowClient extends Client {
 	focused: boolean;
 	visibilityState: WindowClientState;
 	focus(): Promise<WindowClient>;
@@ -94,11 +95,22 @@ interface ActivateEvent extends ExtendableEvent {
 
 // Notification API
 
-interface NotificationEvent {
+interface NotificationEvent extends ExtendableEvent {
 	action: string;
 	notification: Notification;
 }
 
+interface Notification {
+	readonly data: any;
+}
+
+interface NotificationOptions {
+	badge?: string;
+	data?: any;
+	image?: string;
+	requireInteraction?: boolean;
+}
+
 // Push API
 
 interface PushEvent extends ExtendableEvent {
@@ -136,9 +148,10 @@ interface ServiceWorkerGlobalScope {
 	addEventListener(event: 'message', fn: (event?: ExtendableMessageEvent) => any): void;
 	addEventListener(event: 'fetch', fn: (event?: FetchEvent) => any): void;
 	addEventListener(event: 'install', fn: (event?: ExtendableEvent) => any): void;
+	addEventListener(event: 'notificationclick', fn: (event?: NotificationEvent) => any): void;
 	addEventListener(event: 'push', fn: (event?: PushEvent) => any): void;
 	addEventListener(event: 'sync', fn: (event?: SyncEvent) => any): void;
 
 	fetch(request: Request | string): Promise<Response>;
-	skipWaiting(): void;
+	skipWaiting(): Promise<void>;
 }
\ No newline at end of file
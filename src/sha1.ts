@@ -6,8 +6,10 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
+import {utf8Encode} from './encoding';
+
 /**
- * Compute the SHA1 of the given string
+ * Compute the SHA1 of the given string, encoded as UTF-8
  *
  * see http://csrc.nist.gov/publications/fips/fips180-4/fips-180-4.pdf
  *
@@ -17,35 +19,85 @@
  * Borrowed from @angular/compiler/src/i18n/digest.ts
  */
 export function sha1(str: string): string {
-  const utf8 = str;
-  const words32 = stringToWords32(utf8, Endian.Big);
-  const len = utf8.length * 8;
+  return sha1Binary(utf8Encode(str).buffer as ArrayBuffer);
+}
 
-  const w = new Array(80);
-  let [a, b, c, d, e]: number[] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+/**
+ * Compute the SHA1 of the given bytes
+ */
+export function sha1Binary(buffer: ArrayBuffer): string {
+  const hasher = new Sha1();
+  hasher.update(new Uint8Array(buffer));
+  return hasher.digest();
+}
 
-  words32[len >> 5] |= 0x80 << (24 - len % 32);
-  words32[((len + 64 >> 9) << 4) + 15] = len;
+/**
+ * Computes a SHA1 incrementally, so the bytes being hashed never need to be held at once. Feed it
+ * with `update()`, as many times as necessary, then call `digest()` once.
+ */
+export class Sha1 {
+  private state: number[] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+
+  /**
+   * Bytes which don't yet make up a whole 64 byte block.
+   */
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+
+  private length = 0;
+  private w = new Array(80);
+
+  update(bytes: Uint8Array): void {
+    for (let i = 0; i < bytes.length; i++) {
+      this.block[this.blockLength++] = bytes[i];
+      if (this.blockLength === 64) {
+        this.processBlock();
+      }
+    }
+    this.length += bytes.length;
+  }
 
-  for (let i = 0; i < words32.length; i += 16) {
-    const [h0, h1, h2, h3, h4]: number[] = [a, b, c, d, e];
+  /**
+   * The hex digest of everything hashed so far.
+   */
+  digest(): string {
+    // Pad with a single set bit, then zeroes up to the final 8 bytes, which hold the length in bits.
+    const bits = this.length * 8;
+    const padding = new Uint8Array(((this.blockLength < 56) ? 56 : 120) - this.blockLength + 8);
+    padding[0] = 0x80;
+    const high = Math.floor(bits / 0x100000000);
+    for (let i = 0; i < 4; i++) {
+      padding[padding.length - 8 + i] = (high >>> (24 - 8 * i)) & 0xff;
+      padding[padding.length - 4 + i] = (bits >>> (24 - 8 * i)) & 0xff;
+    }
+    this.update(padding);
+    return byteStringToHexString(words32ToByteString(this.state));
+  }
+
+  private processBlock(): void {
+    const w = this.w;
+    let [a, b, c, d, e] = this.state;
 
     for (let j = 0; j < 80; j++) {
       if (j < 16) {
-        w[j] = words32[i + j];
+        w[j] = wordAt(this.block, j * 4, Endian.Big);
       } else {
         w[j] = rol32(w[j - 3] ^ w[j - 8] ^ w[j - 14] ^ w[j - 16], 1);
       }
 
       const [f, k] = fk(j, b, c, d);
-      const temp = [rol32(a, 5), f, e, k, w[j]].reduce(add32);
-      [e, d, c, b, a] = [d, c, rol32(b, 30), a, temp];
+      const temp = add32(add32(add32(rol32(a, 5), f), add32(e, k)), w[j]);
+      e = d;
+      d = c;
+      c = rol32(b, 30);
+      b = a;
+      a = temp;
     }
 
-    [a, b, c, d, e] = [add32(a, h0), add32(b, h1), add32(c, h2), add32(d, h3), add32(e, h4)];
+    const state = this.state;
+    this.state = [add32(a, state[0]), add32(b, state[1]), add32(c, state[2]), add32(d, state[3]), add32(e, state[4])];
+    this.blockLength = 0;
   }
-
-  return byteStringToHexString(words32ToByteString([a, b, c, d, e]));
 }
 
 function add32(a: number, b: number): number {
@@ -104,29 +156,22 @@ function fk(index: number, b: number, c: number, d: number): [number, number] {
 }
 
 
-function stringToWords32(str: string, endian: Endian): number[] {
-  const words32 = Array((str.length + 3) >>> 2);
-
-  for (let i = 0; i < words32.length; i++) {
-    words32[i] = wordAt(str, i * 4, endian);
+function byteAt(str: string|Uint8Array, index: number): number {
+  if (index >= str.length) {
+    return 0;
   }
-
-  return words32;
-}
-
-function byteAt(str: string, index: number): number {
-  return index >= str.length ? 0 : str.charCodeAt(index) & 0xff;
+  return typeof str === 'string' ? str.charCodeAt(index) & 0xff : str[index];
 }
 
-function wordAt(str: string, index: number, endian: Endian): number {
+function wordAt(bytes: Uint8Array, index: number, endian: Endian): number {
   let word = 0;
   if (endian === Endian.Big) {
     for (let i = 0; i < 4; i++) {
-      word += byteAt(str, index + i) << (24 - 8 * i);
+      word += byteAt(bytes, index + i) << (24 - 8 * i);
     }
   } else {
     for (let i = 0; i < 4; i++) {
-      word += byteAt(str, index + i) << 8 * i;
+      word += byteAt(bytes, index + i) << 8 * i;
     }
   }
   return word;
@@ -0,0 +1,236 @@
+import {hashAlgorithm} from './integrity';
+import {Manifest} from './manifest';
+
+/**
+ * The only version of the manifest format this SW understands.
+ */
+const SUPPORTED_CONFIG_VERSION = 1;
+
+const ASSET_GROUP_MODES = ['prefetch', 'lazy'];
+const DATA_GROUP_STRATEGIES = ['freshness', 'performance'];
+
+/**
+ * Check that a value fetched from the server really is a `Manifest` this SW can work with, before
+ * anything else trusts it.
+ *
+ * Throws an `Error` listing every problem found, rather than only the first, so a broken build can
+ * be fixed in one go.
+ *
+ * @param normalizeUrl puts URLs in the form the SW matches them in (see `Adapter.normalizeUrl()`),
+ *     so that URLs which are written differently but mean the same resource are found to match.
+ */
+export function validateManifest(value: any, normalizeUrl: (url: string) => string = url => url): Manifest {
+  const problems: string[] = [];
+  const problem = (path: string, message: string) => problems.push(`${path} ${message}`);
+
+  if (!isObject(value)) {
+    throw new Error('Invalid manifest: not an object');
+  }
+
+  if (value.configVersion !== SUPPORTED_CONFIG_VERSION) {
+    problem('configVersion', `is ${JSON.stringify(value.configVersion)}, expected ${SUPPORTED_CONFIG_VERSION}`);
+  }
+
+  if (value.appData !== undefined && !isObject(value.appData)) {
+    problem('appData', 'must be an object');
+  }
+
+  if (value.index !== undefined && typeof value.index !== 'string') {
+    problem('index', 'must be a string');
+  }
+
+  if (value.push !== undefined) {
+    if (!isObject(value.push)) {
+      problem('push', 'must be an object');
+    } else if (value.push.openUrl !== undefined && typeof value.push.openUrl !== 'string') {
+      problem('push.openUrl', 'must be a string');
+    }
+  }
+
+  const hashTable = value.hashTable;
+
+  // The URLs in the hashTable, as the SW will match them.
+  const hashedUrls = new Set<string>();
+  if (!isObject(hashTable)) {
+    problem('hashTable', 'must be an object');
+  } else {
+    Object.keys(hashTable).forEach(url => {
+      if (typeof hashTable[url] !== 'string' || hashTable[url].length === 0) {
+        problem(`hashTable[${JSON.stringify(url)}]`, 'must be a non-empty string');
+      } else if (hashAlgorithm(hashTable[url]) === null) {
+        problem(`hashTable[${JSON.stringify(url)}]`, `uses an unsupported hash algorithm`);
+      }
+      const normalized = normalizeOrNull(normalizeUrl, url);
+      if (normalized === null) {
+        problem(`hashTable[${JSON.stringify(url)}]`, 'is not a valid URL');
+      } else {
+        hashedUrls.add(normalized);
+      }
+    });
+  }
+
+  if (value.navigationUrls !== undefined) {
+    if (!isObject(value.navigationUrls)) {
+      problem('navigationUrls', 'must be an object');
+    } else {
+      checkPatterns(value.navigationUrls.include, 'navigationUrls.include', problem);
+      checkPatterns(value.navigationUrls.exclude, 'navigationUrls.exclude', problem);
+    }
+  }
+
+  checkArray(value.assetGroups, 'assetGroups', problem, (group, path) => {
+    checkName(group.name, `${path}.name`, problem);
+    if (ASSET_GROUP_MODES.indexOf(group.mode) === -1) {
+      problem(`${path}.mode`, `is ${JSON.stringify(group.mode)}, expected one of ${ASSET_GROUP_MODES.join(', ')}`);
+    }
+    checkPatterns(group.patterns, `${path}.patterns`, problem);
+    checkGlobs(group.globs, `${path}.globs`, problem);
+    checkMatch(group.match, `${path}.match`, problem);
+    if (group.retry !== undefined) {
+      if (!isObject(group.retry)) {
+        problem(`${path}.retry`, 'must be an object');
+      } else {
+        checkNumber(group.retry.attempts, `${path}.retry.attempts`, problem);
+        checkNumber(group.retry.delayMs, `${path}.retry.delayMs`, problem);
+        if (group.retry.maxDelayMs !== undefined) {
+          checkNumber(group.retry.maxDelayMs, `${path}.retry.maxDelayMs`, problem);
+        }
+      }
+    }
+    if (!isStringArray(group.urls)) {
+      problem(`${path}.urls`, 'must be an array of strings');
+    } else if (isObject(hashTable)) {
+      // The URLs of an asset group are served by hash, so the hash needs to be known.
+      (group.urls as string[]).forEach(url => {
+        const normalized = normalizeOrNull(normalizeUrl, url);
+        if (normalized === null) {
+          problem(`${path}.urls`, `contains ${url}, which is not a valid URL`);
+        } else if (!hashedUrls.has(normalized)) {
+          problem(`${path}.urls`, `contains ${url}, which has no entry in the hashTable`);
+        }
+      });
+    }
+  });
+
+  checkArray(value.dataGroups, 'dataGroups', problem, (group, path) => {
+    checkName(group.name, `${path}.name`, problem);
+    checkPatterns(group.patterns, `${path}.patterns`, problem);
+    checkGlobs(group.globs, `${path}.globs`, problem);
+    checkMatch(group.match, `${path}.match`, problem);
+    checkNumber(group.maxSize, `${path}.maxSize`, problem);
+    checkNumber(group.maxAge, `${path}.maxAge`, problem);
+    if (group.timeoutMs !== undefined) {
+      checkNumber(group.timeoutMs, `${path}.timeoutMs`, problem);
+    }
+    if (group.staleIfError !== undefined) {
+      checkNumber(group.staleIfError, `${path}.staleIfError`, problem);
+    }
+    if (group.strategy !== undefined && DATA_GROUP_STRATEGIES.indexOf(group.strategy) === -1) {
+      problem(`${path}.strategy`, `is ${JSON.stringify(group.strategy)}, expected one of ${DATA_GROUP_STRATEGIES.join(', ')}`);
+    }
+    if (group.outbox !== undefined && typeof group.outbox !== 'boolean') {
+      problem(`${path}.outbox`, 'must be a boolean');
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid manifest: ${problems.join('; ')}`);
+  }
+  return value as Manifest;
+}
+
+type Problem = (path: string, message: string) => void;
+
+function normalizeOrNull(normalizeUrl: (url: string) => string, url: string): string|null {
+  try {
+    return normalizeUrl(url);
+  } catch (_) {
+    return null;
+  }
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: any): boolean {
+  return Array.isArray(value) && value.every((entry: any) => typeof entry === 'string');
+}
+
+/**
+ * Check an optional array of group configurations, each of which must be an object.
+ */
+function checkArray(value: any, path: string, problem: Problem, check: (group: any, path: string) => void): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    problem(path, 'must be an array');
+    return;
+  }
+  value.forEach((group: any, idx: number) => {
+    if (!isObject(group)) {
+      problem(`${path}[${idx}]`, 'must be an object');
+      return;
+    }
+    check(group, `${path}[${idx}]`);
+  });
+}
+
+function checkName(value: any, path: string, problem: Problem): void {
+  if (typeof value !== 'string' || value.length === 0) {
+    problem(path, 'must be a non-empty string');
+  }
+}
+
+function checkNumber(value: any, path: string, problem: Problem): void {
+  if (typeof value !== 'number' || isNaN(value) || value < 0) {
+    problem(path, 'must be a non-negative number');
+  }
+}
+
+/**
+ * Patterns are regular expressions disguised as strings, so they need to compile.
+ */
+function checkPatterns(value: any, path: string, problem: Problem): void {
+  if (!isStringArray(value)) {
+    problem(path, 'must be an array of strings');
+    return;
+  }
+  (value as string[]).forEach(pattern => {
+    try {
+      new RegExp(pattern);
+    } catch (err) {
+      problem(path, `contains ${JSON.stringify(pattern)}, which is not a valid regular expression`);
+    }
+  });
+}
+
+function checkGlobs(value: any, path: string, problem: Problem): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isStringArray(value)) {
+    problem(path, 'must be an array of strings');
+    return;
+  }
+  (value as string[])
+    .filter(glob => glob.length === 0 || glob === '!')
+    .forEach(glob => problem(path, `contains ${JSON.stringify(glob)}, which is not a valid glob`));
+}
+
+function checkMatch(value: any, path: string, problem: Problem): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    problem(path, 'must be an object');
+    return;
+  }
+  ['ignoreSearch', 'ignoreVary']
+    .filter(option => value[option] !== undefined && typeof value[option] !== 'boolean')
+    .forEach(option => problem(`${path}.${option}`, 'must be a boolean'));
+  if (value.ignoreParams !== undefined && !isStringArray(value.ignoreParams)) {
+    problem(`${path}.ignoreParams`, 'must be an array of strings');
+  }
+}
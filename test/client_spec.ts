@@ -0,0 +1,202 @@
+// The client spec has tests for the page-side library, talking to a real Driver.
+
+import {SwClient} from '../client/index';
+import {CacheDatabase} from '../src/db-cache';
+import {Driver} from '../src/driver';
+import {Manifest, hashManifest} from '../src/manifest';
+
+import {MockServiceWorkerContainer} from '../testing/client';
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystem, MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .build();
+
+const distUpdate = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo v2')
+  .build();
+
+function manifestFor(fs: MockFileSystem, appData?: {[key: string]: string}): Manifest {
+  return {
+    configVersion: 1,
+    appData,
+    assetGroups: [
+      {
+        name: 'assets',
+        mode: 'prefetch',
+        urls: ['/foo.txt'],
+        patterns: [],
+      },
+    ],
+    hashTable: tmpHashTableForFs(fs),
+  };
+}
+
+const manifest = manifestFor(dist);
+const manifestUpdate = manifestFor(distUpdate, {version: 'v2'});
+
+// Claims to serve the update, but the files don't match its hashes.
+const distBroken = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is not foo v2')
+  .build();
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+const serverUpdate = new MockServerStateBuilder()
+  .withStaticFiles(distUpdate)
+  .withManifest(manifestUpdate)
+  .build();
+
+const serverBroken = new MockServerStateBuilder()
+  .withStaticFiles(distBroken)
+  .withManifest(manifestUpdate)
+  .build();
+
+describe('SwClient', () => {
+  let scope: SwTestHarness;
+  let driver: Driver;
+  let client: SwClient;
+
+  beforeEach(async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+    client = new SwClient(new MockServiceWorkerContainer(scope, 'default') as any);
+  });
+
+  it('checks for updates', async () => {
+    const available: Object[] = [];
+    client.onUpdateAvailable(event => available.push(event));
+
+    expect(await client.checkForUpdate()).toEqual(false);
+    expect(available).toEqual([]);
+
+    scope.updateServerState(serverUpdate);
+    expect(await client.checkForUpdate()).toEqual(true);
+    expect(available).toEqual([{
+      type: 'UPDATE_AVAILABLE',
+      current: hashManifest(manifest),
+      available: {version: 'v2'},
+    }]);
+  });
+
+  it('activates updates', async () => {
+    const activated: Object[] = [];
+    client.onUpdateActivated(event => activated.push(event));
+    scope.updateServerState(serverUpdate);
+    await client.checkForUpdate();
+
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    expect(await client.activateUpdate()).toEqual(true);
+    expect(activated).toEqual([{
+      type: 'UPDATE_ACTIVATED',
+      previous: hashManifest(manifest),
+      current: {version: 'v2'},
+    }]);
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo v2');
+
+    // Already on the latest version.
+    expect(await client.activateUpdate()).toEqual(false);
+  });
+
+  it('reports failed update checks', async () => {
+    scope.updateServerState(serverBroken);
+    const err: Error = await client.checkForUpdate().catch(err => err);
+    expect(err instanceof Error).toEqual(true);
+    expect(err.message).toContain('Hash mismatch');
+  });
+
+  it('fetches and clears the debug log', async () => {
+    scope.updateServerState(serverBroken);
+    await client.checkForUpdate().catch(() => undefined);
+    const log = await client.getLog();
+    expect(log.some(entry => entry.level === 'error' && entry.message.indexOf('Hash mismatch') !== -1)).toEqual(true);
+
+    await client.clearLog();
+    expect(await client.getLog()).toEqual([]);
+  });
+
+  it('subscribes to and unsubscribes from push messages', async () => {
+    expect(await client.subscribeToPush('server-key')).toEqual({
+      endpoint: 'https://push.example.com/1',
+      keys: {p256dh: 'p256dh', auth: 'auth'},
+    });
+    expect(await client.unsubscribeFromPush()).toEqual(true);
+    expect(await client.unsubscribeFromPush()).toEqual(false);
+  });
+
+  it('receives push messages', async () => {
+    const pushes: Object[] = [];
+    client.onPush(event => pushes.push(event));
+    await scope.handlePush({hello: 'world'});
+    await Promise.resolve();
+    expect(pushes).toEqual([{type: 'PUSH', data: {hello: 'world'}}]);
+  });
+
+  it('stops delivering events once unsubscribed', async () => {
+    const available: Object[] = [];
+    const unsubscribe = client.onUpdateAvailable(event => available.push(event));
+    unsubscribe();
+
+    scope.updateServerState(serverUpdate);
+    await client.checkForUpdate();
+    expect(available).toEqual([]);
+  });
+
+  it('fails actions the SW does not know', async () => {
+    const err: Error = await (client as any).send({action: 'NOT_AN_ACTION', nonce: 1}).catch((err: Error) => err);
+    expect(err instanceof Error).toEqual(true);
+    expect(err.message).toEqual('Unknown action NOT_AN_ACTION');
+  });
+
+  it('fails actions while the SW is in safe mode', async () => {
+    // Without a manifest, the SW can't initialize.
+    scope = new SwTestHarnessBuilder()
+      .withServerState(new MockServerStateBuilder().withStaticFiles(dist).build())
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    await makeRequest(scope, '/foo.txt');
+    client = new SwClient(new MockServiceWorkerContainer(scope, 'default') as any);
+
+    const err: Error = await client.checkForUpdate().catch(err => err);
+    expect(err instanceof Error).toEqual(true);
+    expect(err.message).toEqual('The SW is in safe mode');
+  });
+
+  it('gives up on actions the SW never answers', async () => {
+    const container = new MockServiceWorkerContainer(scope, 'default');
+    container.controller = {postMessage: () => undefined};
+    const unanswered = new SwClient(container as any, 10);
+    const err: Error = await unanswered.checkForUpdate().catch(err => err);
+    expect(err instanceof Error).toEqual(true);
+    expect(err.message).toEqual(`The service worker didn't answer CHECK_FOR_UPDATE within 10ms`);
+  });
+
+  it('fails actions when no SW controls the page', async () => {
+    const container = new MockServiceWorkerContainer(scope, 'uncontrolled');
+    container.controller = null;
+    const uncontrolled = new SwClient(container as any);
+    expect(uncontrolled.isEnabled).toEqual(false);
+    const err: Error = await uncontrolled.checkForUpdate().catch(err => err);
+    expect(err instanceof Error).toEqual(true);
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  scope.clients.add(clientId || 'default');
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
@@ -1,10 +1,10 @@
 // The happy spec has tests for the happy path cases - when everything is behaving correctly.
 
-import {CacheDatabase} from '../src/db-cache';
 import {Driver} from '../src/driver';
 import {Manifest} from '../src/manifest';
 
 import {MockRequest} from '../testing/fetch';
+import {DATABASE_BACKENDS} from '../testing/helper';
 import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
 import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
 
@@ -17,6 +17,11 @@ const dist = new MockFileSystemBuilder()
   .addFile('/api/c', 'version C')
   .addFile('/api/d', 'version D')
   .addFile('/api/e', 'version E')
+  .addFile('/fresh/data', 'this is fresh data')
+  .addFile('/perf/data', 'this is perf data')
+  .addFile('/stale/data', 'this is stale data')
+  .addFile('/glob/data', 'this is glob data')
+  .addFile('/glob/private/data', 'this is private data')
   .build();
 
 
@@ -24,6 +29,9 @@ const distUpdate = new MockFileSystemBuilder()
 .addFile('/foo.txt', 'this is foo v2')
 .addFile('/bar.txt', 'this is bar')
 .addFile('/api/test', 'version 2')
+.addFile('/fresh/data', 'this is fresher data')
+.addFile('/perf/data', 'this is perf data v2')
+.addFile('/stale/data', 'this is stale data v2')
 .build();
 
 const manifest: Manifest = {
@@ -47,6 +55,34 @@ const manifest: Manifest = {
       timeoutMs: 1000,
       maxAge: 5000,
     },
+    {
+      name: 'fresh',
+      maxSize: 3,
+      patterns: ['^/fresh/.*$'],
+      maxAge: 5000,
+      strategy: 'freshness',
+    },
+    {
+      name: 'perf',
+      maxSize: 3,
+      patterns: ['^/perf/.*$'],
+      maxAge: 5000,
+      strategy: 'performance',
+    },
+    {
+      name: 'stale',
+      maxSize: 3,
+      patterns: ['^/stale/.*$'],
+      maxAge: 5000,
+      staleIfError: 60000,
+    },
+    {
+      name: 'glob',
+      maxSize: 3,
+      patterns: [],
+      globs: ['/glob/**', '!/glob/private/**'],
+      maxAge: 5000,
+    },
   ],
   hashTable: tmpHashTableForFs(dist),
 };
@@ -66,55 +102,152 @@ const scope = new SwTestHarnessBuilder()
   .withServerState(server)
   .build();
 
-describe('data cache', () => {
-  let scope: SwTestHarness;
-  let driver: Driver;
-
-  beforeEach(async () => {
-    server.clearRequests();
-    scope = new SwTestHarnessBuilder()
-      .withServerState(server)
-      .build();
-    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
-
-    // Initialize.
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-    server.clearRequests();
-  });
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`data cache (${backend.name})`, () => {
+    let scope: SwTestHarness;
+    let driver: Driver;
 
-  it('caches a basic request', async () => {
-    expect(await makeRequest(scope, '/api/test')).toEqual('version 1');
-    server.assertSawRequestFor('/api/test');
-    scope.advance(1000);
-    expect(await makeRequest(scope, '/api/test')).toEqual('version 1');
-    server.assertNoOtherRequests();
-  });
+    beforeEach(async () => {
+      server.clearRequests();
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+
+      // Initialize.
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
+      server.clearRequests();
+    });
+
+    it('caches a basic request', async () => {
+      expect(await makeRequest(scope, '/api/test')).toEqual('version 1');
+      server.assertSawRequestFor('/api/test');
+      scope.advance(1000);
+      expect(await makeRequest(scope, '/api/test')).toEqual('version 1');
+      server.assertNoOtherRequests();
+    });
   
-  it('refreshes after awhile', async () => {
-    expect(await makeRequest(scope, '/api/test')).toEqual('version 1');
-    server.clearRequests();
-    scope.advance(10000);
-    scope.updateServerState(serverUpdate);
-    expect(await makeRequest(scope, '/api/test')).toEqual('version 2');
-  });
+    it('refreshes after awhile', async () => {
+      expect(await makeRequest(scope, '/api/test')).toEqual('version 1');
+      server.clearRequests();
+      scope.advance(10000);
+      scope.updateServerState(serverUpdate);
+      expect(await makeRequest(scope, '/api/test')).toEqual('version 2');
+    });
+
+    it('expires the least recently used entry', async () => {
+      expect(await makeRequest(scope, '/api/a')).toEqual('version A');
+      expect(await makeRequest(scope, '/api/b')).toEqual('version B');
+      expect(await makeRequest(scope, '/api/c')).toEqual('version C');
+      expect(await makeRequest(scope, '/api/d')).toEqual('version D');
+      expect(await makeRequest(scope, '/api/e')).toEqual('version E');
+      server.clearRequests();
+      expect(await makeRequest(scope, '/api/c')).toEqual('version C');
+      expect(await makeRequest(scope, '/api/d')).toEqual('version D');
+      expect(await makeRequest(scope, '/api/e')).toEqual('version E');
+      server.assertNoOtherRequests();
+      expect(await makeRequest(scope, '/api/a')).toEqual('version A');
+      expect(await makeRequest(scope, '/api/b')).toEqual('version B');
+      server.assertSawRequestFor('/api/a');
+      server.assertSawRequestFor('/api/b');
+      server.assertNoOtherRequests();
+    });
+
+    describe('with globs', () => {
+      it('caches matching requests', async () => {
+        expect(await makeRequest(scope, '/glob/data')).toEqual('this is glob data');
+        server.clearRequests();
+        expect(await makeRequest(scope, '/glob/data')).toEqual('this is glob data');
+        server.assertNoOtherRequests();
+      });
+
+      it('leaves requests excluded by a negated glob to the network', async () => {
+        expect(await makeRequest(scope, '/glob/private/data')).toEqual('this is private data');
+        server.clearRequests();
+        expect(await makeRequest(scope, '/glob/private/data')).toEqual('this is private data');
+        server.assertSawRequestFor('/glob/private/data');
+      });
+    });
+
+    describe('with a stale-if-error window', () => {
+      it('serves expired responses when the network fails', async () => {
+        expect(await makeRequest(scope, '/stale/data')).toEqual('this is stale data');
+        scope.advance(10000);
+        scope.online = false;
+        const [resPromise, done] = scope.handleFetch(new MockRequest('/stale/data'), 'default');
+        await done;
+        const res = (await resPromise)!;
+        expect(await res.text()).toEqual('this is stale data');
+        expect(res.headers.get('ngsw-stale')).toEqual('true');
 
-  it('expires the least recently used entry', async () => {
-    expect(await makeRequest(scope, '/api/a')).toEqual('version A');
-    expect(await makeRequest(scope, '/api/b')).toEqual('version B');
-    expect(await makeRequest(scope, '/api/c')).toEqual('version C');
-    expect(await makeRequest(scope, '/api/d')).toEqual('version D');
-    expect(await makeRequest(scope, '/api/e')).toEqual('version E');
-    server.clearRequests();
-    expect(await makeRequest(scope, '/api/c')).toEqual('version C');
-    expect(await makeRequest(scope, '/api/d')).toEqual('version D');
-    expect(await makeRequest(scope, '/api/e')).toEqual('version E');
-    server.assertNoOtherRequests();
-    expect(await makeRequest(scope, '/api/a')).toEqual('version A');
-    expect(await makeRequest(scope, '/api/b')).toEqual('version B');
-    server.assertSawRequestFor('/api/a');
-    server.assertSawRequestFor('/api/b');
-    server.assertNoOtherRequests();
+        // The expired response is kept until a fresh one replaces it.
+        expect(await makeRequest(scope, '/stale/data')).toEqual('this is stale data');
+        scope.online = true;
+        scope.updateServerState(serverUpdate);
+        expect(await makeRequest(scope, '/stale/data')).toEqual('this is stale data v2');
+        scope.online = false;
+        expect(await makeRequest(scope, '/stale/data')).toEqual('this is stale data v2');
+      });
+
+      it('does not mark fresh responses as stale', async () => {
+        expect(await makeRequest(scope, '/stale/data')).toEqual('this is stale data');
+        const [resPromise, done] = scope.handleFetch(new MockRequest('/stale/data'), 'default');
+        await done;
+        expect((await resPromise)!.headers.get('ngsw-stale')).toBeNull();
+      });
+
+      it('evicts responses once the window has passed', async () => {
+        expect(await makeRequest(scope, '/stale/data')).toEqual('this is stale data');
+        scope.advance(70000);
+        scope.online = false;
+        const err = await errorFrom(makeRequest(scope, '/stale/data'));
+        expect(err instanceof TypeError).toEqual(true);
+      });
+    });
+
+    describe('in freshness mode', () => {
+      it('goes to the network first', async () => {
+        expect(await makeRequest(scope, '/fresh/data')).toEqual('this is fresh data');
+        server.assertSawRequestFor('/fresh/data');
+        scope.updateServerState(serverUpdate);
+        expect(await makeRequest(scope, '/fresh/data')).toEqual('this is fresher data');
+        serverUpdate.assertSawRequestFor('/fresh/data');
+      });
+
+      it('falls back on the cache when the network fails', async () => {
+        expect(await makeRequest(scope, '/fresh/data')).toEqual('this is fresh data');
+        scope.online = false;
+        expect(await makeRequest(scope, '/fresh/data')).toEqual('this is fresh data');
+      });
+
+      it('fails like the network when it fails and nothing is cached', async () => {
+        scope.online = false;
+        const [resPromise, done] = scope.handleFetch(new MockRequest('/fresh/data'), 'default');
+        await done.catch(() => undefined);
+        let failed = false;
+        await resPromise.catch(() => failed = true);
+        expect(failed).toBe(true);
+      });
+    });
+
+    describe('in performance mode', () => {
+      it('serves from the cache and refreshes in the background', async () => {
+        expect(await makeRequest(scope, '/perf/data')).toEqual('this is perf data');
+        server.clearRequests();
+        scope.updateServerState(serverUpdate);
+        expect(await makeRequest(scope, '/perf/data')).toEqual('this is perf data');
+        serverUpdate.assertSawRequestFor('/perf/data');
+        expect(await makeRequest(scope, '/perf/data')).toEqual('this is perf data v2');
+      });
+
+      it('goes to the network when the cached copy is too old', async () => {
+        expect(await makeRequest(scope, '/perf/data')).toEqual('this is perf data');
+        scope.updateServerState(serverUpdate);
+        scope.advance(10000);
+        expect(await makeRequest(scope, '/perf/data')).toEqual('this is perf data v2');
+      });
+    });
   });
 });
 
@@ -126,4 +259,8 @@ async function makeRequest(scope: SwTestHarness, url: string, clientId?: string)
     return res.text();
   }
   return null;
-}
\ No newline at end of file
+}
+
+function errorFrom(promise: Promise<any>): Promise<any> {
+  return promise.catch(err => err);
+}
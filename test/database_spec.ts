@@ -0,0 +1,181 @@
+import {NotFound} from '../src/database';
+import {CacheDatabase} from '../src/db-cache';
+import {IndexedDbDatabase} from '../src/db-idb';
+
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {SwTestHarnessBuilder} from '../testing/scope';
+
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`${backend.name}`, () => {
+    it('reads back written values', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      const table = await backend.create(scope).open('test');
+      await table.write('a', {value: 'a'});
+      expect(await table.read('a')).toEqual({value: 'a'});
+    });
+
+    it('rejects reads of missing keys with NotFound', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      const table = await backend.create(scope).open('test');
+      const err = await errorFrom(table.read('missing'));
+      expect(err instanceof NotFound).toEqual(true);
+    });
+
+    it('lists and deletes keys', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      const table = await backend.create(scope).open('test');
+      await table.write('a', {value: 'a'});
+      await table.write('b', {value: 'b'});
+      expect((await table.keys()).sort()).toEqual(['a', 'b']);
+      expect(await table.delete('a')).toEqual(true);
+      expect(await table.delete('a')).toEqual(false);
+      expect(await table.keys()).toEqual(['b']);
+    });
+
+    it('writes several keys together', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      const table = await backend.create(scope).open('test');
+      await table.writeAll({a: {value: 'a'}, b: {value: 'b'}});
+      expect(await table.read('a')).toEqual({value: 'a'});
+      expect(await table.read('b')).toEqual({value: 'b'});
+      expect((await table.keys()).sort()).toEqual(['a', 'b']);
+    });
+
+    it('writes none of a batch if one value cannot be stored', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      const table = await backend.create(scope).open('test');
+      const circular: any = {};
+      circular.self = circular;
+      await errorFrom(table.writeAll({a: {value: 'a'}, b: circular}));
+      const err = await errorFrom(table.read('a'));
+      expect(err instanceof NotFound).toEqual(true);
+    });
+
+    it('keeps tables separate', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      const db = backend.create(scope);
+      const first = await db.open('first');
+      const second = await db.open('second');
+      await first.write('a', {value: 'first'});
+      await second.write('a', {value: 'second'});
+      expect(await first.read('a')).toEqual({value: 'first'});
+      expect(await second.read('a')).toEqual({value: 'second'});
+
+      expect(await db.delete('first')).toEqual(true);
+      expect(await db.delete('first')).toEqual(false);
+      expect(await (await db.open('first')).keys()).toEqual([]);
+      expect(await second.read('a')).toEqual({value: 'second'});
+    });
+
+    it('persists across restarts', async () => {
+      const scope = new SwTestHarnessBuilder().build();
+      await (await backend.create(scope).open('test')).write('a', {value: 'a'});
+
+      const restarted = new SwTestHarnessBuilder()
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      const table = await backend.create(restarted).open('test');
+      expect(await table.read('a')).toEqual({value: 'a'});
+    });
+  });
+});
+
+describe('IndexedDbDatabase', () => {
+  it('shares the database with other contexts without changing its schema', async () => {
+    const scope = new SwTestHarnessBuilder().build();
+    const first = new IndexedDbDatabase(scope.indexedDB);
+    const second = new IndexedDbDatabase(scope.indexedDB);
+    const [a, b] = await Promise.all([first.open('a'), second.open('b')]);
+    await a.write('key', {value: 'a'});
+    await b.write('key', {value: 'b'});
+    expect(await (await second.open('a')).read('key')).toEqual({value: 'a'});
+    expect((await first.list()).sort()).toEqual(['a', 'b']);
+    expect(JSON.parse(scope.indexedDB.dehydrate())['ngsw:db'].version).toEqual(1);
+  });
+
+  it('keeps tables whose names contain the separator apart', async () => {
+    const scope = new SwTestHarnessBuilder().build();
+    const db = new IndexedDbDatabase(scope.indexedDB);
+    await (await db.open('a/b')).write('c', {value: 'a/b'});
+    await (await db.open('a')).write('b/c', {value: 'a'});
+    expect(await (await db.open('a/b')).keys()).toEqual(['c']);
+    expect(await (await db.open('a')).keys()).toEqual(['b/c']);
+    expect((await db.list()).sort()).toEqual(['a', 'a/b']);
+  });
+
+  it('opens a table again after a failure', async () => {
+    const scope = new SwTestHarnessBuilder().build();
+    const factory = scope.indexedDB;
+    const open = factory.open.bind(factory);
+    factory.open = () => {
+      factory.open = open;
+      throw new Error('Unavailable');
+    };
+    const db = new IndexedDbDatabase(factory);
+    const err = await errorFrom(db.open('test'));
+    expect(err.message).toEqual('Unavailable');
+
+    const table = await db.open('test');
+    await table.write('a', {value: 'a'});
+    expect(await table.read('a')).toEqual({value: 'a'});
+  });
+});
+
+describe('CacheDatabase batches', () => {
+  it('are replayed if the SW stopped partway through writing them', async () => {
+    const scope = new SwTestHarnessBuilder().build();
+
+    // Leave behind a journaled batch, as if the SW had been stopped before applying it.
+    const cache = await scope.caches.open('ngsw:db:test');
+    const journal = {a: JSON.stringify({value: 'a'}), b: JSON.stringify({value: 'b'})};
+    await cache.put(scope.newRequest('/ngsw:journal'), scope.newResponse(JSON.stringify(journal)));
+
+    const table = await new CacheDatabase(scope, scope).open('test');
+    expect(await table.read('a')).toEqual({value: 'a'});
+    expect(await table.read('b')).toEqual({value: 'b'});
+    expect((await table.keys()).sort()).toEqual(['a', 'b']);
+  });
+
+  it('are applied one at a time when they overlap', async () => {
+    const scope = new SwTestHarnessBuilder().build();
+    const table = await new CacheDatabase(scope, scope).open('test');
+
+    // Watch the journal being written and cleared. Putting an entry deletes the old one first,
+    // which doesn't count.
+    const cache = await scope.caches.open('ngsw:db:test');
+    const journal: string[] = [];
+    const put = cache.put.bind(cache);
+    const del = cache.delete.bind(cache);
+    let putting = 0;
+    cache.put = (req: Request, res: Response) => {
+      if (req.url !== '/ngsw:journal') {
+        return put(req, res);
+      }
+      journal.push('write');
+      putting++;
+      const done = put(req, res);
+      done.then(() => putting--, () => putting--);
+      return done;
+    };
+    cache.delete = (req: Request, options?: CacheQueryOptions) => {
+      if (req.url === '/ngsw:journal' && putting === 0) {
+        journal.push('clear');
+      }
+      return del(req, options);
+    };
+
+    await Promise.all([
+      table.writeAll({a: {value: 'a1'}, b: {value: 'b1'}}),
+      table.writeAll({a: {value: 'a2'}, c: {value: 'c2'}}),
+    ]);
+    expect(journal).toEqual(['write', 'clear', 'write', 'clear']);
+    expect(await table.read('a')).toEqual({value: 'a2'});
+    expect(await table.read('b')).toEqual({value: 'b1'});
+    expect(await table.read('c')).toEqual({value: 'c2'});
+  });
+});
+
+function errorFrom(promise: Promise<any>): Promise<any> {
+  return promise.catch(err => err);
+}
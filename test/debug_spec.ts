@@ -0,0 +1,102 @@
+// The debug spec has tests for the debug endpoint served by the Driver.
+
+import {CacheDatabase} from '../src/db-cache';
+import {Driver} from '../src/driver';
+import {Manifest, hashManifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/foo.txt'],
+      patterns: [],
+    },
+  ],
+  hashTable: tmpHashTableForFs(dist),
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+// Has no manifest, so the SW can't initialize.
+const brokenServer = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .build();
+
+describe('debug endpoint', () => {
+  let scope: SwTestHarness;
+  let driver: Driver;
+
+  it('describes the state of a healthy SW', async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+
+    const state = (await makeRequest(scope, '/ngsw/state'))!;
+    expect(state).toContain('Driver state: NORMAL ((nominal))');
+    expect(state).toContain(`Latest manifest hash: ${hashManifest(manifest)}`);
+    expect(state).toContain(`=== Version ${hashManifest(manifest)} ===`);
+    expect(state).toContain('Okay: true');
+    expect(state).toContain('Clients: default');
+    expect(state).toContain('Tasks in queue: 0');
+    expect(state).toContain('Last failure: none');
+    server.assertNoRequestFor('/ngsw/state');
+  });
+
+  it('is served with a query, but only on the SW\'s own origin', async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+
+    expect(await makeRequest(scope, 'http://localhost/ngsw/state?verbose')).toContain('NGSW Debug Info');
+    server.assertNoRequestFor('/ngsw/state');
+
+    // The same path elsewhere is left to the network.
+    const [resPromise, done] = scope.handleFetch(new MockRequest('https://example.com/ngsw/state'), 'default');
+    await done;
+    expect((await resPromise)!.status).toEqual(404);
+    server.assertSawRequestFor('https://example.com/ngsw/state');
+  });
+
+  it('is served even in safe mode', async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(brokenServer)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    await makeRequest(scope, '/foo.txt');
+
+    const state = (await makeRequest(scope, '/ngsw/state'))!;
+    expect(state).toContain('Driver state: SAFE_MODE (Initialization failed due to error:');
+    expect(state).toContain('ERROR Driver: Initialization failed, entering safe mode');
+    brokenServer.assertNoRequestFor('/ngsw/state');
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  scope.clients.add(clientId || 'default');
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
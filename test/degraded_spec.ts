@@ -0,0 +1,145 @@
+// The degraded spec has tests for cases where a version of the app turns out to be broken.
+
+import {CacheDatabase} from '../src/db-cache';
+import {Driver} from '../src/driver';
+import {Manifest, hashManifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystem, MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .addFile('/bar.txt', 'this is bar')
+  .build();
+
+const distUpdate = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo v2')
+  .addFile('/bar.txt', 'this is bar')
+  .build();
+
+const distBroken = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is not what the manifest says')
+  .addFile('/bar.txt', 'this is bar')
+  .build();
+
+const distFixed = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo v3')
+  .addFile('/bar.txt', 'this is bar')
+  .build();
+
+function manifestFor(fs: MockFileSystem): Manifest {
+  return {
+    configVersion: 1,
+    assetGroups: [
+      {
+        name: 'assets',
+        mode: 'prefetch',
+        urls: ['/foo.txt', '/bar.txt'],
+        patterns: [],
+      },
+    ],
+    hashTable: tmpHashTableForFs(fs),
+  };
+}
+
+const manifest = manifestFor(dist);
+const manifestUpdate = manifestFor(distUpdate);
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+const serverUpdate = new MockServerStateBuilder()
+  .withStaticFiles(distUpdate)
+  .withManifest(manifestUpdate)
+  .build();
+
+// Still claims to serve the updated version, but the files no longer match its hashes.
+const serverBroken = new MockServerStateBuilder()
+  .withStaticFiles(distBroken)
+  .withManifest(manifestUpdate)
+  .build();
+
+const serverFixed = new MockServerStateBuilder()
+  .withStaticFiles(distFixed)
+  .withManifest(manifestFor(distFixed))
+  .build();
+
+describe('Driver with a broken latest version', () => {
+  let scope: SwTestHarness;
+  let driver: Driver;
+
+  beforeEach(async () => {
+    server.clearRequests();
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+
+    // Put the 'default' client on the first version, and the 'new' client on the update.
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+    scope.updateServerState(serverUpdate);
+    expect(await driver.checkForUpdate()).toEqual(true);
+    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
+
+    // Restart the SW after the browser has evicted the cache of the update, while the server's
+    // copy of it has become inconsistent. Reinitializing the update then fails.
+    scope = new SwTestHarnessBuilder()
+      .withCacheState(scope.caches.dehydrate())
+      .withServerState(serverBroken)
+      .build();
+    await scope.caches.delete(`${hashManifest(manifestUpdate)}:assets:assets:cache`);
+    scope.clients.add('new');
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+  });
+
+  it('keeps serving clients of older versions', async () => {
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    expect(await makeRequest(scope, '/bar.txt')).toEqual('this is bar');
+  });
+
+  it('leaves clients of the broken version to the network', async () => {
+    expect(await makeRequest(scope, '/foo.txt', 'new')).toBeNull();
+  });
+
+  it('notifies clients of the broken version', async () => {
+    expect(scope.clients.getMock('new')!.queue).toEqual([{
+      type: 'VERSION_FAILED',
+      version: hashManifest(manifestUpdate),
+      reason: jasmine.any(String),
+    }]);
+    expect(scope.clients.getMock('default')!.queue).toEqual([]);
+  });
+
+  it('leaves new clients to the network', async () => {
+    expect(await makeRequest(scope, '/foo.txt', 'brand-new')).toBeNull();
+    expect(await makeRequest(scope, '/foo.txt', 'brand-new')).toBeNull();
+  });
+
+  it('recovers once a healthy version is installed', async () => {
+    scope.updateServerState(serverFixed);
+    expect(await driver.checkForUpdate()).toEqual(true);
+    expect(await makeRequest(scope, '/foo.txt', 'brand-new')).toEqual('this is foo v3');
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+  });
+});
+
+/**
+ * Make a request as the given client. Resolves to `null` if the SW declined to handle it, leaving
+ * it to the network.
+ */
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  scope.clients.add(clientId || 'default');
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
@@ -0,0 +1,128 @@
+// The generator spec has tests for building a manifest from a config and a build output.
+
+import {Generator} from '../cli/generator';
+import {sha1} from '../src/sha1';
+import {validateManifest} from '../src/validate';
+
+import {MockFilesystem} from '../testing/fs';
+
+describe('Generator', () => {
+  const fs = new MockFilesystem({
+    '/index.html': 'this is index',
+    '/main.js': 'this is main',
+    '/assets/logo.png': 'this is a logo',
+    '/assets/icons/a.svg': 'this is an icon',
+    '/ngsw.json': '{}',
+  });
+
+  it('builds a manifest from a config', async () => {
+    const gen = new Generator(fs);
+    const manifest = await gen.process({
+      appData: {version: '1'},
+      index: '/index.html',
+      assetGroups: [
+        {
+          name: 'app',
+          mode: 'prefetch',
+          files: ['/index.html', '/*.js'],
+        },
+        {
+          name: 'assets',
+          mode: 'lazy',
+          files: ['/assets/**'],
+          patterns: ['^https://cdn\\.example\\.com/.*$'],
+        },
+      ],
+      dataGroups: [
+        {
+          name: 'api',
+          urls: ['/api/**'],
+          maxSize: 10,
+          maxAge: 3600000,
+          strategy: 'freshness',
+        },
+      ],
+    });
+
+    expect(manifest).toEqual({
+      configVersion: 1,
+      appData: {version: '1'},
+      index: '/index.html',
+      assetGroups: [
+        {
+          name: 'app',
+          mode: 'prefetch',
+          urls: ['/index.html', '/main.js'],
+          patterns: [],
+        },
+        {
+          name: 'assets',
+          mode: 'lazy',
+          urls: ['/assets/icons/a.svg', '/assets/logo.png'],
+          patterns: ['^https://cdn\\.example\\.com/.*$'],
+        },
+      ],
+      dataGroups: [
+        {
+          name: 'api',
+          patterns: [],
+          globs: ['/api/**'],
+          maxSize: 10,
+          maxAge: 3600000,
+          strategy: 'freshness',
+        },
+      ],
+      hashTable: {
+        '/index.html': sha1('this is index'),
+        '/main.js': sha1('this is main'),
+        '/assets/icons/a.svg': sha1('this is an icon'),
+        '/assets/logo.png': sha1('this is a logo'),
+      },
+    });
+    expect(validateManifest(manifest)).toBe(manifest);
+  });
+
+  it('puts each file in the first group which matches it', async () => {
+    const gen = new Generator(fs);
+    const manifest = await gen.process({
+      assetGroups: [
+        {name: 'logo', mode: 'prefetch', files: ['/assets/logo.png']},
+        {name: 'rest', mode: 'lazy', files: ['/**']},
+      ],
+    });
+    expect(manifest.assetGroups![0].urls).toEqual(['/assets/logo.png']);
+    expect(manifest.assetGroups![1].urls).toEqual(['/assets/icons/a.svg', '/index.html', '/main.js']);
+  });
+
+  it('leaves out files excluded by a negated glob', async () => {
+    const gen = new Generator(fs);
+    const manifest = await gen.process({
+      assetGroups: [
+        {name: 'assets', mode: 'lazy', files: ['/assets/**', '!/assets/icons/**']},
+      ],
+    });
+    expect(manifest.assetGroups![0].urls).toEqual(['/assets/logo.png']);
+  });
+
+  it('passes the navigation URLs through', async () => {
+    const gen = new Generator(fs);
+    const navigationUrls = {include: ['^/.*$'], exclude: ['^/api/.*$']};
+    const manifest = await gen.process({index: '/index.html', navigationUrls});
+    expect(manifest.navigationUrls).toEqual(navigationUrls);
+    expect(validateManifest(manifest)).toBe(manifest);
+  });
+
+  it('hashes files with the configured algorithm', async () => {
+    const gen = new Generator(fs);
+    const manifest = await gen.process({
+      hashAlgorithm: 'sha256',
+      assetGroups: [
+        {name: 'app', mode: 'prefetch', files: ['/main.js']},
+      ],
+    });
+    expect(manifest.hashTable).toEqual({
+      '/main.js': 'sha256-y7slss3oE0wzP63xJ9wiwT/DWNXq8+X8XuwZ97r5vOo=',
+    });
+    expect(validateManifest(manifest)).toBe(manifest);
+  });
+});
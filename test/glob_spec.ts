@@ -0,0 +1,67 @@
+// The glob spec has tests for converting globs into URL matchers.
+
+import {GlobMatcher, globToRegex} from '../src/glob';
+
+describe('globToRegex', () => {
+  function matches(glob: string, url: string): boolean {
+    return new RegExp(globToRegex(glob)).test(url);
+  }
+
+  it('matches within a single segment with *', () => {
+    expect(matches('/*.js', '/main.js')).toEqual(true);
+    expect(matches('/*.js', '/lazy/chunk.js')).toEqual(false);
+    expect(matches('/*.js', '/main.jsx')).toEqual(false);
+  });
+
+  it('matches any number of segments with **', () => {
+    expect(matches('/**/*.png', '/logo.png')).toEqual(true);
+    expect(matches('/**/*.png', '/assets/img/logo.png')).toEqual(true);
+    expect(matches('/assets/**', '/assets/a/b.txt')).toEqual(true);
+    expect(matches('/assets/**', '/other/a.txt')).toEqual(false);
+  });
+
+  it('matches a single character with ?', () => {
+    expect(matches('/file?.txt', '/file1.txt')).toEqual(true);
+    expect(matches('/file?.txt', '/file12.txt')).toEqual(false);
+  });
+
+  it('allows any query', () => {
+    expect(matches('/assets/*.png', '/assets/a.png?v=1')).toEqual(true);
+    expect(matches('/assets/*.png', '/assets/a.png?next=/b/c')).toEqual(true);
+    expect(matches('/assets/*.png', '/assets/a.pngx?v=1')).toEqual(false);
+  });
+
+  it('escapes regular expression syntax', () => {
+    expect(matches('/a+b.txt', '/a+b.txt')).toEqual(true);
+    expect(matches('/a+b.txt', '/aab.txt')).toEqual(false);
+    expect(matches('/api/(v1)', '/api/(v1)')).toEqual(true);
+  });
+});
+
+describe('GlobMatcher', () => {
+  const matcher = new GlobMatcher([
+    '/api/**',
+    '!/api/private/**',
+    'https://fonts.example.com/**',
+  ]);
+
+  it('matches paths', () => {
+    expect(matcher.matches('/api/data')).toEqual(true);
+  });
+
+  it('is anchored', () => {
+    expect(matcher.matches('/foo/api/data')).toEqual(false);
+    expect(matcher.matches('/api-docs')).toEqual(false);
+  });
+
+  it('does not match other origins by path', () => {
+    expect(matcher.matches('http://other.example.com/api/data')).toEqual(false);
+    expect(matcher.matches('https://fonts.example.com/roboto.woff')).toEqual(true);
+  });
+
+  it('excludes URLs matched by negated globs', () => {
+    expect(matcher.matches('/api/private/secret')).toEqual(false);
+    expect(matcher.excludes('/api/private/secret')).toEqual(true);
+    expect(matcher.excludes('/api/data')).toEqual(false);
+  });
+});
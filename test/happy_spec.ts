@@ -1,11 +1,11 @@
 // The happy spec has tests for the happy path cases - when everything is behaving correctly.
 
-import {CacheDatabase} from '../src/db-cache';
 import {Driver} from '../src/driver';
 import {Manifest} from '../src/manifest';
 import {sha1} from '../src/sha1';
 
 import {MockRequest} from '../testing/fetch';
+import {DATABASE_BACKENDS} from '../testing/helper';
 import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
 import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
 
@@ -94,242 +94,265 @@ const scope = new SwTestHarnessBuilder()
   .withServerState(server)
   .build();
 
-describe('Driver', () => {
-  let scope: SwTestHarness;
-  let driver: Driver;
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`Driver (${backend.name})`, () => {
+    let scope: SwTestHarness;
+    let driver: Driver;
 
-  beforeEach(() => {
-    server.clearRequests();
-    scope = new SwTestHarnessBuilder()
-      .withServerState(server)
-      .build();
-    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
-  });
+    beforeEach(() => {
+      server.clearRequests();
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+    });
 
-  it('initializes prefetched content correctly, after a request kicks it off', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-    server.assertSawRequestFor('/ngsw.json');
-    server.assertSawRequestFor('/foo.txt');
-    server.assertSawRequestFor('/bar.txt');
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    expect(await makeRequest(scope, '/bar.txt')).toEqual('this is bar');
-    server.assertNoOtherRequests();
-  });
+    it('initializes prefetched content correctly, after a request kicks it off', async () => {
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
+      server.assertSawRequestFor('/ngsw.json');
+      server.assertSawRequestFor('/foo.txt');
+      server.assertSawRequestFor('/bar.txt');
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      expect(await makeRequest(scope, '/bar.txt')).toEqual('this is bar');
+      server.assertNoOtherRequests();
+    });
 
-  it('caches lazy content on-request', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-    server.clearRequests();
-    expect(await makeRequest(scope, '/baz.txt')).toEqual('this is baz');
-    server.assertSawRequestFor('/baz.txt');
-    server.assertNoOtherRequests();
-    expect(await makeRequest(scope, '/baz.txt')).toEqual('this is baz');
-    server.assertNoOtherRequests();
-    expect(await makeRequest(scope, '/qux.txt')).toEqual('this is qux');
-    server.assertSawRequestFor('/qux.txt');
-    server.assertNoOtherRequests();
-  });
+    it('caches lazy content on-request', async () => {
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
+      server.clearRequests();
+      expect(await makeRequest(scope, '/baz.txt')).toEqual('this is baz');
+      server.assertSawRequestFor('/baz.txt');
+      server.assertNoOtherRequests();
+      expect(await makeRequest(scope, '/baz.txt')).toEqual('this is baz');
+      server.assertNoOtherRequests();
+      expect(await makeRequest(scope, '/qux.txt')).toEqual('this is qux');
+      server.assertSawRequestFor('/qux.txt');
+      server.assertNoOtherRequests();
+    });
 
-  it('updates to new content when requested', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
+    it('updates to new content when requested', async () => {
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
 
-    scope.updateServerState(serverUpdate);
-    expect(await driver.checkForUpdate()).toEqual(true);
-    serverUpdate.assertSawRequestFor('/ngsw.json');
-    serverUpdate.assertSawRequestFor('/foo.txt');
-    serverUpdate.assertNoOtherRequests();
+      scope.updateServerState(serverUpdate);
+      expect(await driver.checkForUpdate()).toEqual(true);
+      serverUpdate.assertSawRequestFor('/ngsw.json');
+      serverUpdate.assertSawRequestFor('/foo.txt');
+      serverUpdate.assertNoOtherRequests();
 
-    // Default client is still on the old version of the app.
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      // Default client is still on the old version of the app.
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
 
-    // Sending a new client id should result in the updated version being returned.
-    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
+      // Sending a new client id should result in the updated version being returned.
+      expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
 
-    // Of course, the old version should still work.
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      // Of course, the old version should still work.
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
 
-    expect(await makeRequest(scope, '/bar.txt')).toEqual('this is bar');
-    serverUpdate.assertNoOtherRequests();
-  });
+      expect(await makeRequest(scope, '/bar.txt')).toEqual('this is bar');
+      serverUpdate.assertNoOtherRequests();
+    });
   
-  it('checks for updates on restart', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-
-    scope = new SwTestHarnessBuilder()
-      .withCacheState(scope.caches.dehydrate())
-      .withServerState(serverUpdate)
-      .build();
-    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-    serverUpdate.assertNoOtherRequests();
-
-    scope.advance(12000);
-    await driver.idle.empty;
-    serverUpdate.assertSawRequestFor('/ngsw.json');
-    serverUpdate.assertSawRequestFor('/foo.txt');
-    serverUpdate.assertNoOtherRequests();
-  });
-
-  it('preserves multiple client assignments across restarts', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-
-    scope.updateServerState(serverUpdate);
-    expect(await driver.checkForUpdate()).toEqual(true);
-    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
-    serverUpdate.clearRequests();
-
-    scope = new SwTestHarnessBuilder()
-      .withServerState(serverUpdate)
-      .withCacheState(scope.caches.dehydrate())
-      .build();
-    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
-
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
-    serverUpdate.assertNoOtherRequests();
-  });
-
-  it('cleans up properly when manually requested', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
+    it('checks for updates on restart', async () => {
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
 
-    scope.updateServerState(serverUpdate);
-    expect(await driver.checkForUpdate()).toEqual(true);
-    serverUpdate.clearRequests();
+      scope = new SwTestHarnessBuilder()
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .withServerState(serverUpdate)
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
+      serverUpdate.assertNoOtherRequests();
 
-    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
+      scope.advance(12000);
+      await driver.idle.empty;
+      serverUpdate.assertSawRequestFor('/ngsw.json');
+      serverUpdate.assertSawRequestFor('/foo.txt');
+      serverUpdate.assertNoOtherRequests();
+    });
 
-    // Delete the default client.
-    scope.clients.remove('default');
+    it('preserves multiple client assignments across restarts', async () => {
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
 
-    // After this, the old version should no longer be cached.
-    await driver.cleanupCaches();
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo v2');
+      scope.updateServerState(serverUpdate);
+      expect(await driver.checkForUpdate()).toEqual(true);
+      expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
+      serverUpdate.clearRequests();
 
-    serverUpdate.assertNoOtherRequests();
-  });
-  
-  it('cleans up properly on restart', async () => {
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-
-    scope = new SwTestHarnessBuilder()
-      .withCacheState(scope.caches.dehydrate())
-      .withServerState(serverUpdate)
-      .build();
-    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-    await driver.initialized;
-    serverUpdate.assertNoOtherRequests();
-
-    scope.clients.remove('default');
-
-    scope.advance(12000);
-    await driver.idle.empty;
-    serverUpdate.clearRequests();
-
-    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
-    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo v2');
-
-    const oldManifestHash = sha1(JSON.stringify(manifest));
-    const keys = await scope.caches.keys();
-    const hasOldCaches = keys.some(name => name.startsWith(oldManifestHash + ':'));
-    expect(hasOldCaches).toEqual(false);
-  });
+      scope = new SwTestHarnessBuilder()
+        .withServerState(serverUpdate)
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
 
-  describe('unhashed requests', () => {
-    beforeEach(async () => {
       expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
-      await driver.initialized;
-      server.clearRequests();
+      expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
+      serverUpdate.assertNoOtherRequests();
     });
 
-    it('are cached appropriately', async () => {
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      server.assertSawRequestFor('/unhashed/a.txt');
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      server.assertNoOtherRequests();
-    });
-    
-    it('expire according to Cache-Control headers', async () => {
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      server.clearRequests();
+    it('cleans up properly when manually requested', async () => {
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
 
-      // Update the resource on the server.
       scope.updateServerState(serverUpdate);
+      expect(await driver.checkForUpdate()).toEqual(true);
+      serverUpdate.clearRequests();
 
-      // Move ahead by 15 seconds.
-      scope.advance(15000);
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      serverUpdate.assertNoOtherRequests();
-
-      // Another 6 seconds.
-      scope.advance(6000);
-      await driver.idle.empty;
-      serverUpdate.assertSawRequestFor('/unhashed/a.txt');
+      expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo v2');
 
-      // Now the new version of the resource should be served.
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed v2');
-      server.assertNoOtherRequests();
-    });
+      // Delete the default client.
+      scope.clients.remove('default');
 
-    it('survive serialization', async () => {
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      server.clearRequests();
+      // After this, the old version should no longer be cached.
+      await driver.cleanupCaches();
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo v2');
 
-      const state = scope.caches.dehydrate();
-      scope = new SwTestHarnessBuilder()
-        .withCacheState(state)
-        .withServerState(server)
-        .build();
-      driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+      serverUpdate.assertNoOtherRequests();
+    });
+  
+    it('cleans up properly on restart', async () => {
       expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
       await driver.initialized;
-      server.assertNoRequestFor('/unhashed/a.txt');
-      server.clearRequests();
-
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      server.assertNoOtherRequests();
-
-      // Advance the clock by 6 seconds, triggering the idle tasks. If an idle task
-      // was scheduled from the request above, it means that the metadata was not
-      // properly saved.
-      scope.advance(6000);
-      await driver.idle.empty;
-      server.assertNoRequestFor('/unhashed/a.txt');
-    });
-
-    it('get carried over during updates', async () => {
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      server.clearRequests();
 
       scope = new SwTestHarnessBuilder()
         .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
         .withServerState(serverUpdate)
         .build();
-      driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+      driver = new Driver(scope, scope, backend.create(scope));
       expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
       await driver.initialized;
+      serverUpdate.assertNoOtherRequests();
 
-      scope.advance(15000);
+      scope.clients.remove('default');
+
+      scope.advance(12000);
       await driver.idle.empty;
-      serverUpdate.assertNoRequestFor('/unhashed/a.txt');
       serverUpdate.clearRequests();
 
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
-      serverUpdate.assertNoOtherRequests();
+      driver = new Driver(scope, scope, backend.create(scope));
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo v2');
 
-      scope.advance(15000);
-      await driver.idle.empty;
-      serverUpdate.assertSawRequestFor('/unhashed/a.txt');
+      const oldManifestHash = sha1(JSON.stringify(manifest));
+      const keys = await scope.caches.keys();
+      const hasOldCaches = keys.some(name => name.startsWith(oldManifestHash + ':'));
+      expect(hasOldCaches).toEqual(false);
+    });
 
-      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed v2');
-      serverUpdate.assertNoOtherRequests();
+    describe('unhashed requests', () => {
+      beforeEach(async () => {
+        expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+        await driver.initialized;
+        server.clearRequests();
+      });
+
+      it('are cached appropriately', async () => {
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        server.assertSawRequestFor('/unhashed/a.txt');
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        server.assertNoOtherRequests();
+      });
+    
+      it('expire according to Cache-Control headers', async () => {
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        server.clearRequests();
+
+        // Update the resource on the server.
+        scope.updateServerState(serverUpdate);
+
+        // Move ahead by 15 seconds.
+        scope.advance(15000);
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        serverUpdate.assertNoOtherRequests();
+
+        // Another 6 seconds.
+        scope.advance(6000);
+        await driver.idle.empty;
+        serverUpdate.assertSawRequestFor('/unhashed/a.txt');
+
+        // Now the new version of the resource should be served.
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed v2');
+        server.assertNoOtherRequests();
+      });
+
+      it('are revalidated once however often they are requested while stale', async () => {
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        scope.updateServerState(serverUpdate);
+        scope.advance(15000);
+        for (let i = 0; i < 3; i++) {
+          expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        }
+        expect(driver.idle.size).toEqual(1);
+
+        scope.advance(6000);
+        await driver.idle.empty;
+        serverUpdate.assertSawRequestFor('/unhashed/a.txt');
+        serverUpdate.assertNoOtherRequests();
+      });
+
+      it('survive serialization', async () => {
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        server.clearRequests();
+
+        const state = scope.caches.dehydrate();
+        const idbState = scope.indexedDB.dehydrate();
+        scope = new SwTestHarnessBuilder()
+          .withCacheState(state)
+          .withIndexedDbState(idbState)
+          .withServerState(server)
+          .build();
+        driver = new Driver(scope, scope, backend.create(scope));
+        expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+        await driver.initialized;
+        server.assertNoRequestFor('/unhashed/a.txt');
+        server.clearRequests();
+
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        server.assertNoOtherRequests();
+
+        // Advance the clock by 6 seconds, triggering the idle tasks. If an idle task
+        // was scheduled from the request above, it means that the metadata was not
+        // properly saved.
+        scope.advance(6000);
+        await driver.idle.empty;
+        server.assertNoRequestFor('/unhashed/a.txt');
+      });
+
+      it('get carried over during updates', async () => {
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        server.clearRequests();
+
+        scope = new SwTestHarnessBuilder()
+          .withCacheState(scope.caches.dehydrate())
+          .withIndexedDbState(scope.indexedDB.dehydrate())
+          .withServerState(serverUpdate)
+          .build();
+        driver = new Driver(scope, scope, backend.create(scope));
+        expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+        await driver.initialized;
+
+        scope.advance(15000);
+        await driver.idle.empty;
+        serverUpdate.assertNoRequestFor('/unhashed/a.txt');
+        serverUpdate.clearRequests();
+
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+        serverUpdate.assertNoOtherRequests();
+
+        scope.advance(15000);
+        await driver.idle.empty;
+        serverUpdate.assertSawRequestFor('/unhashed/a.txt');
+
+        expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed v2');
+        serverUpdate.assertNoOtherRequests();
+      });
     });
   });
 });
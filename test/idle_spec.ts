@@ -0,0 +1,143 @@
+// The idle spec has tests for the order, concurrency, deduplication and failure handling of idle
+// tasks.
+
+import {IdleScheduler} from '../src/idle';
+
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+describe('IdleScheduler', () => {
+  let scope: SwTestHarness;
+  let idle: IdleScheduler;
+  let ran: string[];
+
+  const task = (name: string) => async () => {
+    ran.push(name);
+  };
+
+  beforeEach(() => {
+    scope = new SwTestHarnessBuilder().build();
+    idle = new IdleScheduler(scope, 1000);
+    ran = [];
+  });
+
+  it('runs tasks by priority, then in the order they were scheduled', async () => {
+    idle.schedule('low', task('low'), {priority: 'low'});
+    idle.schedule('normal 1', task('normal 1'));
+    idle.schedule('high', task('high'), {priority: 'high'});
+    idle.schedule('normal 2', task('normal 2'), {priority: 'normal'});
+    await idle.execute();
+    expect(ran).toEqual(['high', 'normal 1', 'normal 2', 'low']);
+  });
+
+  it('keeps running the queue after a task fails', async () => {
+    const failures: string[] = [];
+    idle.onTaskFailed = (key, err) => failures.push(`${key}: ${err.message}`);
+    idle.schedule('async', async () => {
+      throw new Error('rejected');
+    });
+    idle.schedule('sync', () => {
+      throw new Error('thrown');
+    });
+    idle.schedule('after', task('after'));
+    await idle.execute();
+    await idle.empty;
+    expect(ran).toEqual(['after']);
+    expect(failures.sort()).toEqual(['async: rejected', 'sync: thrown']);
+    expect(idle.size).toEqual(0);
+    expect((await scope.logger.events()).map(event => event.message).sort()).toEqual([
+      'Idle task async failed: rejected',
+      'Idle task sync failed: thrown',
+    ]);
+  });
+
+  it('keeps running the queue when reporting a failure fails', async () => {
+    idle.onTaskFailed = () => {
+      throw new Error('hook');
+    };
+    idle.schedule('failing', async () => {
+      throw new Error('rejected');
+    });
+    idle.schedule('after', task('after'));
+    await idle.execute();
+    await idle.empty;
+    expect(ran).toEqual(['after']);
+    expect((await scope.logger.events()).map(event => event.message)).toContain(
+      'Reporting the failure of idle task failing failed: hook');
+
+    // The next run isn't stuck behind the last one.
+    idle.schedule('later', task('later'));
+    await idle.execute();
+    expect(ran).toEqual(['after', 'later']);
+  });
+
+  it('runs no more tasks at once than its concurrency allows', async () => {
+    idle = new IdleScheduler(scope, 1000, 2);
+    let active = 0;
+    let mostActive = 0;
+    const slow = async () => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await Promise.resolve();
+      await Promise.resolve();
+      active--;
+    };
+    for (let i = 0; i < 5; i++) {
+      idle.schedule(`slow ${i}`, slow);
+    }
+    await idle.execute();
+    expect(mostActive).toEqual(2);
+    expect(idle.size).toEqual(0);
+  });
+
+  it('shares one run between overlapping calls to execute', async () => {
+    idle = new IdleScheduler(scope, 1000, 1);
+    let active = 0;
+    let mostActive = 0;
+    idle.schedule('first', async () => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await Promise.resolve();
+      active--;
+    });
+    idle.schedule('second', task('second'));
+    await Promise.all([idle.execute(), idle.execute()]);
+    expect(mostActive).toEqual(1);
+    expect(ran).toEqual(['second']);
+  });
+
+  it('merges tasks scheduled under the same key', async () => {
+    idle.schedule('other', task('other'));
+    idle.schedule('dup', task('dup 1'), {priority: 'low'});
+    idle.schedule('dup', task('dup 2'), {priority: 'high'});
+    idle.schedule('dup', task('dup 3'));
+    expect(idle.size).toEqual(2);
+    await idle.execute();
+    expect(ran).toEqual(['dup 1', 'other']);
+  });
+
+  it('queues a key again once its task has started', async () => {
+    idle.schedule('dup', async () => {
+      ran.push('dup 1');
+      idle.schedule('dup', task('dup 2'));
+    });
+    await idle.execute();
+    expect(ran).toEqual(['dup 1', 'dup 2']);
+  });
+
+  it('drops cancelled tasks', async () => {
+    idle.schedule('kept', task('kept'));
+    idle.schedule('dropped', task('dropped'));
+    idle.cancel('dropped');
+    idle.cancel('unknown');
+    await idle.execute();
+    expect(ran).toEqual(['kept']);
+  });
+
+  it('is empty once its only task is cancelled', async () => {
+    idle.schedule('dropped', task('dropped'));
+    idle.cancel('dropped');
+    expect(idle.size).toEqual(0);
+    await idle.empty;
+    expect(ran).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import {PrefetchAssetGroup} from '../src/assets';
+import {IdleScheduler} from '../src/idle';
+import {Manifest} from '../src/manifest';
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTable} from '../testing/mock';
+import {SwTestHarnessBuilder} from '../testing/scope';
+
+// The start of a PNG, which isn't valid UTF-8.
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe, 0x80]).buffer;
+
+// Big enough to arrive in several chunks, each of which straddles hash blocks.
+const WASM = new Uint8Array(1000).map((_, i) => (i * 7) % 251).buffer;
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .addFile('/bar.txt', 'this is bar')
+  .addFile('/emoji.txt', 'héllo 😀')
+  .addFile('/logo.png', PNG)
+  .addFile('/legacy.png', PNG)
+  .addFile('/app.wasm', WASM)
+  .addFile('/legacy.wasm', WASM)
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'group',
+      mode: 'prefetch',
+      urls: ['/foo.txt', '/bar.txt', '/emoji.txt', '/logo.png', '/legacy.png', '/app.wasm', '/legacy.wasm'],
+      patterns: [],
+    },
+  ],
+  hashTable: {
+    '/foo.txt': 'sha256-XV8PAX2BHSYoanT+2ZufCOT2ez0NMwcS/oRPGVADkIQ=',
+    '/bar.txt': 'sha384-9Ky5+RjKXyqvNRB5KmGjfXWgdHhps/KlkXxXwxde7C34LiMvdasCH+sXWqv56Ufu',
+    '/emoji.txt': 'sha256-pTxWlmYW8Ow+2dt+oHpgNEMBSVKLurqJZsKE+Tc2acI=',
+    '/logo.png': 'sha256-+5zXGvtCbWQq8Hpoh4F31BbH5/MqkCjt6CxqCZbplAY=',
+    '/legacy.png': 'e8f655e84ce319fdd2c1f962a6edec1efce5a6e0',
+    '/app.wasm': 'sha256-WUJeRBLilvx0c2ZzzgZwJ/OEID9ZwNLD5r57EzR7P/w=',
+    '/legacy.wasm': '33f233c97a803d84a0db9f3dbc05b63ff2045d92',
+  },
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`integrity hashes (${backend.name})`, () => {
+    let idle: IdleScheduler;
+    beforeEach(() => {
+      idle = new IdleScheduler(null!, 3000);
+    });
+
+    it('verifies and caches files with SRI hashes', async () => {
+      const scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      const group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(scope), 'test');
+      await group.initializeFully();
+      scope.updateServerState();
+      const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
+      const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
+      const res3 = await group.handleFetch(scope.newRequest('/emoji.txt'), scope);
+      expect(await res1!.text()).toEqual('this is foo');
+      expect(await res2!.text()).toEqual('this is bar');
+      expect(await res3!.text()).toEqual('héllo 😀');
+    });
+
+    it('verifies binary files byte for byte', async () => {
+      const scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      const group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(scope), 'test');
+      await group.initializeFully();
+      scope.updateServerState();
+      const res1 = await group.handleFetch(scope.newRequest('/logo.png'), scope);
+      const res2 = await group.handleFetch(scope.newRequest('/legacy.png'), scope);
+      expect(new Uint8Array(await res1!.arrayBuffer())).toEqual(new Uint8Array(PNG));
+      expect(new Uint8Array(await res2!.arrayBuffer())).toEqual(new Uint8Array(PNG));
+    });
+
+    it('verifies bodies which arrive in several chunks', async () => {
+      const scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      const group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(scope), 'test');
+      await group.initializeFully();
+      scope.updateServerState();
+      const res1 = await group.handleFetch(scope.newRequest('/app.wasm'), scope);
+      const res2 = await group.handleFetch(scope.newRequest('/legacy.wasm'), scope);
+      expect(new Uint8Array(await res1!.arrayBuffer())).toEqual(new Uint8Array(WASM));
+      expect(new Uint8Array(await res2!.arrayBuffer())).toEqual(new Uint8Array(WASM));
+    });
+
+    it('digests SRI hashes with WebCrypto, over the whole body', async () => {
+      const scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      const digest = scope.digest.bind(scope);
+      const digested: {[algorithm: string]: number[]} = {};
+      scope.digest = (algorithm: string, data: Uint8Array) => {
+        (digested[algorithm] = digested[algorithm] || []).push(data.byteLength);
+        return digest(algorithm, data);
+      };
+      const group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(scope), 'test');
+      await group.initializeFully();
+      expect(digested['SHA-256'].sort((a, b) => a - b)).toEqual([11, 11, 12, 1000]);
+      expect(digested['SHA-384']).toEqual([11]);
+    });
+
+    it('writes each file to the cache once, as it is verified', async () => {
+      const scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      const cache = await scope.caches.open('test:group:cache');
+      const put = cache.put.bind(cache);
+      const written: string[] = [];
+      cache.put = (req: Request, res: Response) => {
+        written.push(req.url);
+        return put(req, res);
+      };
+      const group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(scope), 'test');
+      await group.initializeFully();
+      expect(written.sort()).toEqual(manifest.assetGroups![0].urls.slice().sort());
+    });
+
+    it('throws if the server-side content does not match an SRI hash', async () => {
+      const badServer = new MockServerStateBuilder()
+        .withStaticFiles(dist.extend().addFile('/foo.txt', 'corrupted file').build())
+        .withManifest(manifest)
+        .build();
+      const scope = new SwTestHarnessBuilder()
+        .withServerState(badServer)
+        .build();
+      const group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(scope), 'test');
+      const err = await errorFrom(group.initializeFully());
+      expect(err.message).toContain('Hash mismatch (/foo.txt): expected sha256-XV8PAX2BHSYoanT+2ZufCOT2ez0NMwcS/oRPGVADkIQ=, got sha256-j0z8o3ikiKtpPMua6lyXUp+qq+zzqQwXwBXJOw0699o=');
+
+      // The corrupted file was never committed to any cache.
+      expect(await scope.caches.match(scope.newRequest('/foo.txt'))).toBeUndefined();
+    });
+  });
+});
+
+function errorFrom(promise: Promise<any>): Promise<any> {
+  return promise.catch(err => err);
+}
@@ -0,0 +1,128 @@
+// The lifecycle spec has tests for installing and activating the SW.
+
+import {CacheDatabase} from '../src/db-cache';
+import {IndexedDbDatabase} from '../src/db-idb';
+import {Driver} from '../src/driver';
+import {Manifest, hashManifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .addFile('/bar.txt', 'this is bar')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/foo.txt', '/bar.txt'],
+      patterns: [],
+    },
+  ],
+  hashTable: tmpHashTableForFs(dist),
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+// Claims to serve the manifest, but the files don't match its hashes.
+const brokenServer = new MockServerStateBuilder()
+  .withStaticFiles(new MockFileSystemBuilder()
+    .addFile('/foo.txt', 'this is not foo')
+    .addFile('/bar.txt', 'this is bar')
+    .build())
+  .withManifest(manifest)
+  .build();
+
+describe('SW lifecycle', () => {
+  let scope: SwTestHarness;
+
+  beforeEach(() => {
+    server.clearRequests();
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+  });
+
+  it('installs without touching the network by default', async () => {
+    new Driver(scope, scope, new CacheDatabase(scope, scope));
+    await scope.handleInstall();
+    expect(scope.skippedWaiting).toEqual(false);
+    server.assertNoOtherRequests();
+  });
+
+  it('skips waiting when asked to', async () => {
+    new Driver(scope, scope, new CacheDatabase(scope, scope), {skipWaiting: true});
+    await scope.handleInstall();
+    expect(scope.skippedWaiting).toEqual(true);
+  });
+
+  it('prefetches the latest version during installation', async () => {
+    new Driver(scope, scope, new CacheDatabase(scope, scope), {precacheOnInstall: true});
+    await scope.handleInstall();
+    server.assertSawRequestFor('/ngsw.json');
+    server.assertSawRequestFor('/foo.txt');
+    server.assertSawRequestFor('/bar.txt');
+    server.assertNoOtherRequests();
+
+    // Once it starts serving, only the manifest needs fetching again.
+    const driver = new Driver(scope, scope, new CacheDatabase(scope, scope), {precacheOnInstall: true});
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+    expect(await makeRequest(scope, '/bar.txt')).toEqual('this is bar');
+    server.assertSawRequestFor('/ngsw.json');
+    server.assertNoOtherRequests();
+  });
+
+  it('fails installation if the latest version can not be prefetched', async () => {
+    scope.updateServerState(brokenServer);
+    new Driver(scope, scope, new CacheDatabase(scope, scope), {precacheOnInstall: true});
+    const err: Error = await scope.handleInstall().then(() => null!, err => err);
+    expect(err.message).toContain('Hash mismatch');
+    expect(scope.skippedWaiting).toEqual(false);
+  });
+
+  it('claims clients on activation', async () => {
+    new Driver(scope, scope, new CacheDatabase(scope, scope));
+    await scope.handleActivate();
+    expect(scope.clients.claimed).toEqual(true);
+  });
+
+  it('removes the tables left in the Cache API once the state lives in IndexedDB', async () => {
+    const assets = `${hashManifest(manifest)}:assets:assets:cache`;
+    const kept = ['app-cache', assets, 'data:dynamic:api:cache'];
+    const removed = ['ngsw:db:control', 'ngsw:db:outbox'];
+    await Promise.all(kept.concat(removed).map(name => scope.caches.open(name)));
+
+    new Driver(scope, scope, new IndexedDbDatabase(scope.indexedDB));
+    await scope.handleActivate();
+    const keys = await scope.caches.keys();
+    expect(kept.filter(name => keys.indexOf(name) === -1)).toEqual([]);
+    expect(removed.filter(name => keys.indexOf(name) !== -1)).toEqual([]);
+  });
+
+  it('keeps the tables in the Cache API while the state lives there', async () => {
+    await scope.caches.open('ngsw:db:control');
+
+    new Driver(scope, scope, new CacheDatabase(scope, scope));
+    await scope.handleActivate();
+    expect(await scope.caches.keys()).toContain('ngsw:db:control');
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
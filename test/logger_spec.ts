@@ -0,0 +1,64 @@
+// The logger spec has tests for the Logger's ring buffer and its persistence.
+
+import {Logger} from '../src/logger';
+
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`Logger (${backend.name})`, () => {
+    let scope: SwTestHarness;
+    let logger: Logger;
+
+    beforeEach(() => {
+      scope = new SwTestHarnessBuilder().build();
+      logger = new Logger(scope, 3);
+    });
+
+    it('records structured events', async () => {
+      logger.info('Test', 'hello');
+      logger.error('Test', 'it broke', new Error('oops'));
+      const events = await logger.events();
+      expect(events.length).toEqual(2);
+      expect(events[0]).toEqual({time: scope.time, level: 'info', source: 'Test', message: 'hello'});
+      expect(events[1].level).toEqual('error');
+      expect(events[1].message).toEqual('it broke: oops');
+      expect(events[1].stack).toContain('oops');
+    });
+
+    it('keeps only the most recent events', async () => {
+      ['a', 'b', 'c', 'd', 'e'].forEach(message => logger.info('Test', message));
+      expect((await logger.events()).map(event => event.message)).toEqual(['c', 'd', 'e']);
+    });
+
+    it('survives a restart', async () => {
+      logger.attach(backend.create(scope));
+      logger.info('Test', 'before');
+      await logger.flush();
+
+      scope = new SwTestHarnessBuilder()
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      logger = new Logger(scope, 3);
+      logger.info('Test', 'after');
+      logger.attach(backend.create(scope));
+      expect((await logger.events()).map(event => event.message)).toEqual(['before', 'after']);
+    });
+
+    it('can be cleared', async () => {
+      logger.attach(backend.create(scope));
+      logger.info('Test', 'before');
+      await logger.clear();
+      expect(await logger.events()).toEqual([]);
+
+      scope = new SwTestHarnessBuilder()
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      logger = new Logger(scope, 3);
+      logger.attach(backend.create(scope));
+      expect(await logger.events()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+// The match spec has tests for the options which control how requests are matched against cached
+// responses.
+
+import {Driver} from '../src/driver';
+import {Manifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/app.js', 'this is app')
+  .addUnhashedFile('/unhashed/a.txt', 'this is unhashed')
+  .addUnhashedFile('/api/greeting', 'hello', {'Vary': 'Accept-Language'})
+  .addUnhashedFile('/shared/greeting', 'hi', {'Vary': 'Accept-Language'})
+  .addUnhashedFile('/search/results', 'these are results')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/app.js'],
+      patterns: [],
+      match: {ignoreSearch: true},
+    },
+    {
+      name: 'unhashed',
+      mode: 'lazy',
+      urls: [],
+      patterns: [],
+      globs: ['/unhashed/**'],
+      match: {ignoreParams: ['v']},
+    },
+  ],
+  dataGroups: [
+    {
+      name: 'api',
+      maxSize: 3,
+      patterns: [],
+      globs: ['/api/**'],
+      maxAge: 5000,
+    },
+    {
+      name: 'shared',
+      maxSize: 3,
+      patterns: [],
+      globs: ['/shared/**'],
+      maxAge: 5000,
+      match: {ignoreVary: true},
+    },
+    {
+      name: 'search',
+      maxSize: 3,
+      patterns: [],
+      globs: ['/search/**'],
+      maxAge: 5000,
+      match: {ignoreSearch: true},
+    },
+  ],
+  hashTable: tmpHashTableForFs(dist),
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`cache matching (${backend.name})`, () => {
+    let scope: SwTestHarness;
+    let driver: Driver;
+
+    beforeEach(async () => {
+      server.clearRequests();
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+
+      // Initialize.
+      expect(await makeRequest(scope, '/app.js')).toEqual('this is app');
+      await driver.initialized;
+      server.clearRequests();
+    });
+
+    it('serves hashed assets whatever their query when ignoring the search', async () => {
+      expect(await makeRequest(scope, '/app.js?v=3')).toEqual('this is app');
+      server.assertNoOtherRequests();
+    });
+
+    it('ignores only the configured query params', async () => {
+      expect(await makeRequest(scope, '/unhashed/a.txt?v=1')).toEqual('this is unhashed');
+      server.assertSawRequestFor('/unhashed/a.txt');
+      expect(await makeRequest(scope, '/unhashed/a.txt?v=2')).toEqual('this is unhashed');
+      expect(await makeRequest(scope, '/unhashed/a.txt')).toEqual('this is unhashed');
+      server.assertNoOtherRequests();
+      expect(await makeRequest(scope, '/unhashed/a.txt?page=2')).toEqual('this is unhashed');
+      server.assertSawRequestFor('/unhashed/a.txt');
+    });
+
+    it('shares data between queries when ignoring the search', async () => {
+      expect(await makeRequest(scope, '/search/results?q=a')).toEqual('these are results');
+      server.assertSawRequestFor('/search/results');
+      expect(await makeRequest(scope, '/search/results?q=b')).toEqual('these are results');
+      server.assertNoOtherRequests();
+    });
+
+    it('honors Vary by default', async () => {
+      expect(await makeRequest(scope, '/api/greeting', {'Accept-Language': 'en'})).toEqual('hello');
+      server.assertSawRequestFor('/api/greeting');
+      expect(await makeRequest(scope, '/api/greeting', {'Accept-Language': 'fr'})).toEqual('hello');
+      server.assertSawRequestFor('/api/greeting');
+      expect(await makeRequest(scope, '/api/greeting', {'Accept-Language': 'fr'})).toEqual('hello');
+      server.assertNoOtherRequests();
+    });
+
+    it('shares responses between variants when ignoring Vary', async () => {
+      expect(await makeRequest(scope, '/shared/greeting', {'Accept-Language': 'en'})).toEqual('hi');
+      server.assertSawRequestFor('/shared/greeting');
+      expect(await makeRequest(scope, '/shared/greeting', {'Accept-Language': 'fr'})).toEqual('hi');
+      server.assertNoOtherRequests();
+    });
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, headers?: {[name: string]: string}): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url, {headers}), 'default');
+  await done;
+  const res = await resPromise;
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+import {CacheDatabase} from '../src/db-cache';
+import {Driver} from '../src/driver';
+import {Manifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/index.html', 'this is index')
+  .addFile('/main.js', 'this is main')
+  .build();
+
+const distUpdate = new MockFileSystemBuilder()
+  .addFile('/index.html', 'this is index v2')
+  .addFile('/main.js', 'this is main v2')
+  .build();
+
+function manifestFor(fs: typeof dist, extra: Partial<Manifest> = {}): Manifest {
+  const manifest: Manifest = {
+    configVersion: 1,
+    index: '/index.html',
+    assetGroups: [
+      {
+        name: 'assets',
+        mode: 'prefetch',
+        urls: ['/index.html', '/main.js'],
+        patterns: [],
+      },
+    ],
+    hashTable: tmpHashTableForFs(fs),
+  };
+  return {...manifest, ...extra};
+}
+
+const manifest = manifestFor(dist);
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+const serverUpdate = new MockServerStateBuilder()
+  .withStaticFiles(distUpdate)
+  .withManifest(manifestFor(distUpdate))
+  .build();
+
+describe('navigation requests', () => {
+  let scope: SwTestHarness;
+  let driver: Driver;
+
+  async function initialize(state = server): Promise<void> {
+    state.clearRequests();
+    scope = new SwTestHarnessBuilder()
+      .withServerState(state)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    expect(await makeRequest(scope, '/main.js')).toEqual('this is main');
+    await driver.initialized;
+    state.clearRequests();
+  }
+
+  beforeEach(() => initialize());
+
+  it('are answered with the index page', async () => {
+    expect(await makeNavigationRequest(scope, '/orders/123')).toEqual('this is index');
+    expect(await makeNavigationRequest(scope, '/')).toEqual('this is index');
+    server.assertNoOtherRequests();
+  });
+
+  it('are not answered with the index page for URLs which look like files', async () => {
+    await makeNavigationRequest(scope, '/report.pdf');
+    server.assertSawRequestFor('/report.pdf');
+  });
+
+  it('are the only requests answered with the index page', async () => {
+    await makeRequest(scope, '/orders/123');
+    server.assertSawRequestFor('/orders/123');
+  });
+
+  it('are answered from the version assigned to the client', async () => {
+    scope.updateServerState(serverUpdate);
+    expect(await driver.checkForUpdate()).toEqual(true);
+    expect(await makeNavigationRequest(scope, '/orders/123')).toEqual('this is index');
+    expect(await makeNavigationRequest(scope, '/orders/123', 'new')).toEqual('this is index v2');
+  });
+
+  it('honor configured include and exclude patterns', async () => {
+    const customServer = new MockServerStateBuilder()
+      .withStaticFiles(dist)
+      .withManifest(manifestFor(dist, {
+        navigationUrls: {
+          include: ['^/orders/'],
+          exclude: ['^/orders/export$'],
+        },
+      }))
+      .build();
+    await initialize(customServer);
+
+    expect(await makeNavigationRequest(scope, '/orders/123')).toEqual('this is index');
+    customServer.assertNoOtherRequests();
+    await makeNavigationRequest(scope, '/orders/export');
+    customServer.assertSawRequestFor('/orders/export');
+    await makeNavigationRequest(scope, '/profile');
+    customServer.assertSawRequestFor('/profile');
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  return fetchText(scope, new MockRequest(url), clientId);
+}
+
+async function makeNavigationRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  return fetchText(scope, new MockRequest(url, {mode: 'navigate'}), clientId);
+}
+
+async function fetchText(scope: SwTestHarness, req: Request, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(req, clientId || 'default');
+  await done;
+  const res = await resPromise;
+  scope.clients.add(clientId || 'default');
+  if (res !== undefined && res.ok) {
+    return res.text();
+  }
+  return null;
+}
@@ -0,0 +1,131 @@
+// The origin spec has tests for matching URLs regardless of how they're written, and for caching
+// resources which live on other origins.
+
+import {Driver} from '../src/driver';
+import {Manifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .addFile('https://cdn.example.com/font.woff', 'this is a font')
+  .addFile('https://cdn.example.com/lazy.woff', 'this is a lazy font')
+  .addUnhashedFile('https://cdn.example.com/img/logo.png', 'this is a logo')
+  .addUnhashedFile('https://api.example.com/data', 'this is data')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/foo.txt', 'https://cdn.example.com/font.woff'],
+      patterns: [],
+    },
+    {
+      name: 'cdn',
+      mode: 'lazy',
+      urls: ['https://cdn.example.com/lazy.woff'],
+      patterns: [],
+      globs: ['https://cdn.example.com/img/**'],
+    },
+  ],
+  dataGroups: [
+    {
+      name: 'api',
+      maxSize: 3,
+      patterns: [],
+      globs: ['https://api.example.com/**'],
+      maxAge: 5000,
+    },
+  ],
+  hashTable: tmpHashTableForFs(dist),
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`cross-origin matching (${backend.name})`, () => {
+    let scope: SwTestHarness;
+    let driver: Driver;
+
+    beforeEach(async () => {
+      server.clearRequests();
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+
+      // Initialize.
+      expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+      await driver.initialized;
+      server.clearRequests();
+    });
+
+    it('serves hashed assets for their absolute same-origin URLs', async () => {
+      expect(await makeRequest(scope, 'http://localhost/foo.txt')).toEqual('this is foo');
+      server.assertNoOtherRequests();
+    });
+
+    it('prefetches hashed cross-origin assets', async () => {
+      expect(await makeRequest(scope, 'https://cdn.example.com/font.woff')).toEqual('this is a font');
+      server.assertNoOtherRequests();
+    });
+
+    it('refetches hashed cross-origin assets with CORS when the page asked without', async () => {
+      const res = await fetchResponse(scope, new MockRequest('https://cdn.example.com/lazy.woff', {mode: 'no-cors'}));
+      expect(res!.type).not.toEqual('opaque');
+      expect(await res!.text()).toEqual('this is a lazy font');
+      server.assertSawRequestFor('https://cdn.example.com/lazy.woff');
+      server.assertSawRequestFor('https://cdn.example.com/lazy.woff');
+      server.assertNoOtherRequests();
+    });
+
+    it('caches opaque responses for unhashed cross-origin assets', async () => {
+      const req = () => new MockRequest('https://cdn.example.com/img/logo.png', {mode: 'no-cors'});
+      expect((await fetchResponse(scope, req()))!.type).toEqual('opaque');
+      server.assertSawRequestFor('https://cdn.example.com/img/logo.png');
+      expect((await fetchResponse(scope, req()))!.type).toEqual('opaque');
+      server.assertNoOtherRequests();
+    });
+
+    it('caches cross-origin data', async () => {
+      expect(await makeRequest(scope, 'https://api.example.com/data')).toEqual('this is data');
+      server.assertSawRequestFor('https://api.example.com/data');
+      scope.advance(1000);
+      expect(await makeRequest(scope, 'https://api.example.com/data')).toEqual('this is data');
+      server.assertNoOtherRequests();
+    });
+
+    it('caches opaque cross-origin data', async () => {
+      const req = () => new MockRequest('https://api.example.com/data', {mode: 'no-cors'});
+      expect((await fetchResponse(scope, req()))!.type).toEqual('opaque');
+      server.assertSawRequestFor('https://api.example.com/data');
+      expect((await fetchResponse(scope, req()))!.type).toEqual('opaque');
+      server.assertNoOtherRequests();
+    });
+  });
+});
+
+async function fetchResponse(scope: SwTestHarness, req: Request): Promise<Response|undefined> {
+  const [resPromise, done] = scope.handleFetch(req, 'default');
+  await done;
+  return resPromise;
+}
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
@@ -0,0 +1,261 @@
+// The outbox spec has tests for queueing mutating requests while the network is unreachable, and
+// sending them once it's back.
+
+import {Driver} from '../src/driver';
+import {Manifest} from '../src/manifest';
+import {OUTBOX_SYNC_TAG} from '../src/outbox';
+
+import {MockRequest} from '../testing/fetch';
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .addUnhashedFile('/api/items', 'ok')
+  .addUnhashedFile('/fragile/items', 'ok')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/foo.txt'],
+      patterns: [],
+    },
+  ],
+  dataGroups: [
+    {
+      name: 'api',
+      maxSize: 3,
+      patterns: [],
+      globs: ['/api/**'],
+      maxAge: 5000,
+      outbox: true,
+    },
+    {
+      name: 'fragile',
+      maxSize: 3,
+      patterns: [],
+      globs: ['/fragile/**'],
+      maxAge: 5000,
+    },
+  ],
+  hashTable: tmpHashTableForFs(dist),
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .withError('/api/rejected', 400)
+  .withError('/api/unavailable', 503)
+  .build();
+
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`outbox (${backend.name})`, () => {
+    let scope: SwTestHarness;
+    let driver: Driver;
+
+    beforeEach(async () => {
+      server.clearRequests();
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .build();
+      scope.clients.add('default');
+      driver = new Driver(scope, scope, backend.create(scope));
+
+      // Initialize.
+      expect((await fetchResponse(scope, '/foo.txt')).status).toEqual(200);
+      await driver.initialized;
+      server.clearRequests();
+    });
+
+    it('queues writes while offline and replays them on sync', async () => {
+      scope.online = false;
+      const res = await fetchResponse(scope, '/api/items', 'POST', 'first');
+      expect(res.status).toEqual(202);
+      expect(res.headers.get('ngsw-queued')).toEqual('1');
+      expect(await driver.outbox.size()).toEqual(1);
+
+      scope.online = true;
+      await scope.handleSync(OUTBOX_SYNC_TAG);
+      const sent = server.recordedRequests;
+      expect(sent.length).toEqual(1);
+      expect(sent[0].method).toEqual('POST');
+      expect(await sent[0].text()).toEqual('first');
+      expect(await driver.outbox.size()).toEqual(0);
+
+      await Promise.resolve();
+      expect(scope.clients.getMock('default')!.queue).toEqual([
+        {type: 'OUTBOX_REPLAYED', id: 1, method: 'POST', url: '/api/items', status: 200},
+      ]);
+    });
+
+    it('replays writes in the order they were made', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/items', 'POST', 'first');
+      await fetchResponse(scope, '/api/items', 'PUT', 'second');
+      await fetchResponse(scope, '/api/items', 'DELETE');
+
+      scope.online = true;
+      await scope.handleSync(OUTBOX_SYNC_TAG);
+      const sent = server.recordedRequests;
+      expect(sent.map(req => req.method)).toEqual(['POST', 'PUT', 'DELETE']);
+      expect(await sent[1].text()).toEqual('second');
+    });
+
+    it('keeps writes queued and fails the sync while still offline', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/items', 'POST', 'first');
+
+      let failed = false;
+      await scope.handleSync(OUTBOX_SYNC_TAG).catch(() => failed = true);
+      expect(failed).toBe(true);
+      expect(await driver.outbox.size()).toEqual(1);
+      expect(scope.clients.getMock('default')!.queue).toEqual([]);
+    });
+
+    it('reports writes the server rejects, and drops them', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/rejected', 'POST', 'first');
+
+      scope.online = true;
+      await scope.handleSync(OUTBOX_SYNC_TAG);
+      server.assertSawRequestFor('/api/rejected');
+      expect(await driver.outbox.size()).toEqual(0);
+
+      await Promise.resolve();
+      expect(scope.clients.getMock('default')!.queue).toEqual([
+        {type: 'OUTBOX_FAILED', id: 1, method: 'POST', url: '/api/rejected', status: 400, reason: '400 Server Error'},
+      ]);
+    });
+
+    it('keeps writes queued while the server fails', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/unavailable', 'POST', 'first');
+      await fetchResponse(scope, '/api/items', 'POST', 'second');
+
+      scope.online = true;
+      let failed = false;
+      await scope.handleSync(OUTBOX_SYNC_TAG).catch(() => failed = true);
+      expect(failed).toBe(true);
+      server.assertSawRequestFor('/api/unavailable');
+      server.assertNoRequestFor('/api/items');
+      expect(await driver.outbox.size()).toEqual(2);
+      expect(scope.clients.getMock('default')!.queue).toEqual([]);
+    });
+
+    it('sends queued writes ahead of a new one once the network is back', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/items', 'POST', 'first');
+
+      scope.online = true;
+      expect((await fetchResponse(scope, '/api/items', 'PUT', 'second')).status).toEqual(200);
+      const sent = server.recordedRequests;
+      expect(sent.map(req => req.method)).toEqual(['POST', 'PUT']);
+      expect(await sent[0].text()).toEqual('first');
+      expect(await driver.outbox.size()).toEqual(0);
+    });
+
+    it('queues a new write behind earlier ones the server still fails', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/unavailable', 'POST', 'first');
+
+      scope.online = true;
+      expect((await fetchResponse(scope, '/api/items', 'PUT', 'second')).status).toEqual(202);
+      server.assertSawRequestFor('/api/unavailable');
+      server.assertNoRequestFor('/api/items');
+      expect(await driver.outbox.size()).toEqual(2);
+    });
+
+    it('backs off from replaying while the server keeps failing', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/unavailable', 'POST', 'first');
+      scope.online = true;
+      await scope.handleSync(OUTBOX_SYNC_TAG).catch(() => undefined);
+      server.assertSawRequestFor('/api/unavailable');
+      server.clearRequests();
+
+      // Idle periods within the backoff leave the outbox alone.
+      await fetchResponse(scope, '/foo.txt');
+      scope.advance(6000);
+      await driver.idle.empty;
+      server.assertNoRequestFor('/api/unavailable');
+
+      // Once it's over, the next idle period has another go.
+      scope.advance(30000);
+      await fetchResponse(scope, '/foo.txt');
+      scope.advance(6000);
+      await driver.idle.empty;
+      server.assertSawRequestFor('/api/unavailable');
+      server.clearRequests();
+
+      // That failed too, so the backoff doubled.
+      scope.advance(30000);
+      await fetchResponse(scope, '/foo.txt');
+      scope.advance(6000);
+      await driver.idle.empty;
+      server.assertNoRequestFor('/api/unavailable');
+
+      scope.advance(30000);
+      await fetchResponse(scope, '/foo.txt');
+      scope.advance(6000);
+      await driver.idle.empty;
+      server.assertSawRequestFor('/api/unavailable');
+      expect(await driver.outbox.size()).toEqual(1);
+    });
+
+    it('keeps binary bodies intact', async () => {
+      const bytes = new Uint8Array([0x00, 0xff, 0x80, 0x7f, 0xfe]);
+      scope.online = false;
+      const [resPromise, done] = scope.handleFetch(new MockRequest('/api/items', {method: 'POST', body: bytes.buffer}), 'default');
+      await done;
+      await resPromise;
+
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+      await driver.outbox.replay();
+      const sent = server.recordedRequests;
+      expect(new Uint8Array(await sent[0].arrayBuffer())).toEqual(bytes);
+    });
+
+    it('replays writes in the next idle period after a restart', async () => {
+      scope.online = false;
+      await fetchResponse(scope, '/api/items', 'POST', 'first');
+
+      scope = new SwTestHarnessBuilder()
+        .withServerState(server)
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      driver = new Driver(scope, scope, backend.create(scope));
+
+      expect((await fetchResponse(scope, '/foo.txt')).status).toEqual(200);
+      server.assertNoRequestFor('/api/items');
+      scope.advance(6000);
+      await driver.idle.empty;
+      server.assertSawRequestFor('/api/items');
+      expect(await driver.outbox.size()).toEqual(0);
+    });
+
+    it('leaves writes to groups without an outbox to fail', async () => {
+      scope.online = false;
+      let failed = false;
+      await fetchResponse(scope, '/fragile/items', 'POST', 'first').catch(() => failed = true);
+      expect(failed).toBe(true);
+      expect(await driver.outbox.size()).toEqual(0);
+    });
+  });
+});
+
+async function fetchResponse(scope: SwTestHarness, url: string, method: string = 'GET', body?: string): Promise<Response> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url, {method, body}), 'default');
+  await done;
+  return (await resPromise)!;
+}
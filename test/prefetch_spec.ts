@@ -1,7 +1,7 @@
 import {PrefetchAssetGroup} from '../src/assets';
-import {CacheDatabase} from '../src/db-cache';
 import {IdleScheduler} from '../src/idle';
-import {SwTestHarnessBuilder} from '../testing/scope';
+import {DATABASE_BACKENDS} from '../testing/helper';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
 import {MockFileSystemBuilder, MockServerStateBuilder, tmpManifestSingleAssetGroup, tmpHashTable} from '../testing/mock';
 
 const dist = new MockFileSystemBuilder()
@@ -16,70 +16,173 @@ const server = new MockServerStateBuilder()
   .withManifest(manifest)
   .build();
 
-const scope = new SwTestHarnessBuilder()
-  .withServerState(server)
-  .build();
+DATABASE_BACKENDS.forEach(backend => {
+  describe(`prefetch assets (${backend.name})`, () => {
+    const scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    const db = backend.create(scope);
+    let group: PrefetchAssetGroup;
+    let idle: IdleScheduler;
+    beforeEach(() => {
+      idle = new IdleScheduler(null!, 3000);
+      group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), db, 'test');
+    });
+    it('initializes without crashing', async () => {
+      await group.initializeFully();
+    });
+    it('fully caches the two files', async () => {
+      await group.initializeFully();
+      scope.updateServerState();
+      const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
+      const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
+      expect(await res1!.text()).toEqual('this is foo');
+      expect(await res2!.text()).toEqual('this is bar');
+    });
+    it('persists the cache across restarts', async () => {
+      await group.initializeFully();
+      const freshScope = new SwTestHarnessBuilder()
+        .withCacheState(scope.caches.dehydrate())
+        .withIndexedDbState(scope.indexedDB.dehydrate())
+        .build();
+      group = new PrefetchAssetGroup(freshScope, freshScope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(freshScope), 'test');
+      await group.initializeFully();
+      const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
+      const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
+      expect(await res1!.text()).toEqual('this is foo');
+      expect(await res2!.text()).toEqual('this is bar');
+    });
+    it('caches properly if resources are requested before initialization', async () => {
+      const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
+      const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
+      expect(await res1!.text()).toEqual('this is foo');
+      expect(await res2!.text()).toEqual('this is bar');
+      scope.updateServerState();
+      await group.initializeFully();
+    });
+    it('throws if the server-side content does not match the manifest hash', async () => {
+      const badHashFs = dist
+        .extend()
+        .addFile('/foo.txt', 'corrupted file')
+        .build();
+      const badServer = new MockServerStateBuilder()
+        .withManifest(manifest)
+        .withStaticFiles(badHashFs)
+        .build();
+      const badScope = new SwTestHarnessBuilder()
+        .withServerState(badServer)
+        .build();
+      group = new PrefetchAssetGroup(badScope, badScope, idle, manifest.assetGroups![0], tmpHashTable(manifest), backend.create(badScope), 'test');
+      const err = await errorFrom(group.initializeFully());
+      expect(err.message).toContain('Hash mismatch');
+    });
 
-const db = new CacheDatabase(scope, scope);
+    describe('with retries', () => {
+      const config = {...manifest.assetGroups![0], retry: {attempts: 3, delayMs: 1000}};
+      const flakyServer = new MockServerStateBuilder()
+        .withStaticFiles(dist)
+        .withError('/bar.txt', 503)
+        .build();
+      let flakyScope: SwTestHarness;
+      beforeEach(() => {
+        flakyScope = new SwTestHarnessBuilder()
+          .withServerState(flakyServer)
+          .build();
+      });
 
+      it('retries server errors after a delay', async () => {
+        group = new PrefetchAssetGroup(flakyScope, flakyScope, idle, config, tmpHashTable(manifest), backend.create(flakyScope), 'test');
+        const init = group.initializeFully();
+        await untilWaiting(flakyScope);
+        flakyScope.updateServerState(server);
+        flakyScope.advance(1000);
+        await init;
+        const res = await group.handleFetch(flakyScope.newRequest('/bar.txt'), flakyScope);
+        expect(await res!.text()).toEqual('this is bar');
+      });
 
+      it('gives up once the attempts are used up', async () => {
+        group = new PrefetchAssetGroup(flakyScope, flakyScope, idle, config, tmpHashTable(manifest), backend.create(flakyScope), 'test');
+        const init = errorFrom(group.initializeFully());
+        await untilWaiting(flakyScope);
+        flakyScope.advance(1000);
+        await untilWaiting(flakyScope);
+        flakyScope.advance(2000);
+        expect((await init).message).toContain('returned response 503');
+      });
 
-describe('prefetch assets', () => {
-  let group: PrefetchAssetGroup;
-  let idle: IdleScheduler;
-  beforeEach(() => {
-    idle = new IdleScheduler(null!, 3000);
-    group = new PrefetchAssetGroup(scope, scope, idle, manifest.assetGroups![0], tmpHashTable(manifest), db, 'test');
-  });
-  it('initializes without crashing', async () => {
-    await group.initializeFully();
-  });
-  it('fully caches the two files', async () => {
-    await group.initializeFully();
-    scope.updateServerState();
-    const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
-    const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
-    expect(await res1!.text()).toEqual('this is foo');
-    expect(await res2!.text()).toEqual('this is bar');
-  });
-  it('persists the cache across restarts', async () => {
-    await group.initializeFully();
-    const freshScope = new SwTestHarnessBuilder()
-      .withCacheState(scope.caches.dehydrate())
-      .build();
-    group = new PrefetchAssetGroup(freshScope, freshScope, idle, manifest.assetGroups![0], tmpHashTable(manifest), new CacheDatabase(freshScope, freshScope), 'test');
-    await group.initializeFully();
-    const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
-    const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
-    expect(await res1!.text()).toEqual('this is foo');
-    expect(await res2!.text()).toEqual('this is bar');
-  });
-  it('caches properly if resources are requested before initialization', async () => {
-    const res1 = await group.handleFetch(scope.newRequest('/foo.txt'), scope);
-    const res2 = await group.handleFetch(scope.newRequest('/bar.txt'), scope);
-    expect(await res1!.text()).toEqual('this is foo');
-    expect(await res2!.text()).toEqual('this is bar');
-    scope.updateServerState();
-    await group.initializeFully();
-  });
-  it('throws if the server-side content does not match the manifest hash', async () => {
-    const badHashFs = dist
-      .extend()
-      .addFile('/foo.txt', 'corrupted file')
-      .build();
-    const badServer = new MockServerStateBuilder()
-      .withManifest(manifest)
-      .withStaticFiles(badHashFs)
-      .build();
-    const badScope = new SwTestHarnessBuilder()
-      .withServerState(badServer)
-      .build();
-    group = new PrefetchAssetGroup(badScope, badScope, idle, manifest.assetGroups![0], tmpHashTable(manifest), new CacheDatabase(badScope, badScope), 'test');
-    const err = await errorFrom(group.initializeFully());
-    expect(err.message).toContain('Hash mismatch');
+      it('does not retry hash mismatches', async () => {
+        const badScope = new SwTestHarnessBuilder()
+          .withServerState(new MockServerStateBuilder()
+            .withStaticFiles(dist.extend().addFile('/foo.txt', 'corrupted file').build())
+            .build())
+          .build();
+        group = new PrefetchAssetGroup(badScope, badScope, idle, config, tmpHashTable(manifest), backend.create(badScope), 'test');
+        const err = await errorFrom(group.initializeFully());
+        expect(err.message).toContain('Hash mismatch');
+      });
+
+      it('carries attempts across restarts', async () => {
+        group = new PrefetchAssetGroup(flakyScope, flakyScope, idle, config, tmpHashTable(manifest), backend.create(flakyScope), 'test');
+        const init = group.initializeFully();
+        await untilWaiting(flakyScope);
+        flakyScope.advance(1000);
+        await untilWaiting(flakyScope);
+
+        // Two attempts have failed, so after a restart only one is left.
+        const freshScope = new SwTestHarnessBuilder()
+          .withServerState(flakyServer)
+          .withCacheState(flakyScope.caches.dehydrate())
+          .withIndexedDbState(flakyScope.indexedDB.dehydrate())
+          .build();
+
+        // The SW which was stopped never gets to finish, but it shouldn't be left hanging here.
+        flakyScope.advance(2000);
+        await init.catch(err => expect(err.message).toContain('returned response 503'));
+
+        group = new PrefetchAssetGroup(freshScope, freshScope, idle, config, tmpHashTable(manifest), backend.create(freshScope), 'test');
+        const err = await errorFrom(group.initializeFully());
+        expect(err.message).toContain('returned response 503');
+        flakyServer.assertSawRequestFor('/bar.txt');
+      });
+
+      it('starts over once a resource has used up its attempts', async () => {
+        group = new PrefetchAssetGroup(flakyScope, flakyScope, idle, config, tmpHashTable(manifest), backend.create(flakyScope), 'test');
+        const init = errorFrom(group.initializeFully());
+        await untilWaiting(flakyScope);
+        flakyScope.advance(1000);
+        await untilWaiting(flakyScope);
+        flakyScope.advance(2000);
+        expect((await init).message).toContain('returned response 503');
+
+        // After a restart, the first failure is retried again, rather than being the last straw.
+        const freshScope = new SwTestHarnessBuilder()
+          .withServerState(flakyServer)
+          .withCacheState(flakyScope.caches.dehydrate())
+          .withIndexedDbState(flakyScope.indexedDB.dehydrate())
+          .build();
+        group = new PrefetchAssetGroup(freshScope, freshScope, idle, config, tmpHashTable(manifest), backend.create(freshScope), 'test');
+        const retried = group.initializeFully();
+        await untilWaiting(freshScope);
+        freshScope.updateServerState(server);
+        freshScope.advance(1000);
+        await retried;
+        const res = await group.handleFetch(freshScope.newRequest('/bar.txt'), freshScope);
+        expect(await res!.text()).toEqual('this is bar');
+      });
+    });
   });
 });
 
+/**
+ * Let everything run until it's waiting for the clock to be advanced.
+ */
+async function untilWaiting(scope: SwTestHarness): Promise<void> {
+  while (!scope.waitingOnTimers) {
+    await new Promise<void>(resolve => setTimeout(resolve));
+  }
+}
+
 function errorFrom(promise: Promise<any>): Promise<any> {
   return promise.catch(err => err);
 }
@@ -0,0 +1,106 @@
+// The push spec has tests for handling push messages and clicks on the notifications shown for them.
+
+import {CacheDatabase} from '../src/db-cache';
+import {Driver} from '../src/driver';
+import {Manifest} from '../src/manifest';
+
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {MockRegistration, SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/foo.txt'],
+      patterns: [],
+    },
+  ],
+  push: {
+    openUrl: '/inbox',
+  },
+  hashTable: tmpHashTableForFs(dist),
+};
+
+const server = new MockServerStateBuilder()
+  .withStaticFiles(dist)
+  .withManifest(manifest)
+  .build();
+
+describe('push', () => {
+  let scope: SwTestHarness;
+  let driver: Driver;
+  let registration: MockRegistration;
+
+  beforeEach(async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    registration = scope.registration as any as MockRegistration;
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    scope.clients.add('default');
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+  });
+
+  it('forwards pushes to every client', async () => {
+    scope.clients.add('other');
+    await scope.handlePush('plain text');
+    await Promise.resolve();
+    expect(scope.clients.getMock('default')!.queue).toEqual([{type: 'PUSH', data: 'plain text'}]);
+    expect(scope.clients.getMock('other')!.queue).toEqual([{type: 'PUSH', data: 'plain text'}]);
+    expect(registration.notifications).toEqual([]);
+  });
+
+  it('shows notifications for pushes which describe one', async () => {
+    await scope.handlePush({notification: {title: 'Hello', body: 'You have mail', data: {url: '/mail/1'}}});
+    expect(registration.notifications).toEqual([
+      {title: 'Hello', options: {body: 'You have mail', data: {url: '/mail/1'}}},
+    ]);
+  });
+
+  it('focuses a window already open at the URL of a clicked notification', async () => {
+    scope.clients.add('mail', 'http://localhost/mail/1');
+    await scope.handleNotificationClick('Hello', {data: {url: '/mail/1'}});
+    expect(scope.clients.getMock('mail')!.focused).toEqual(true);
+    expect(scope.clients.getMock('default')!.focused).toEqual(false);
+    expect(scope.clients.opened).toEqual([]);
+  });
+
+  it('opens the URL of a clicked notification if no window is showing it', async () => {
+    await scope.handleNotificationClick('Hello', {data: {url: '/mail/1'}});
+    expect(scope.clients.opened).toEqual(['/mail/1']);
+    expect(scope.clients.getMock('default')!.focused).toEqual(false);
+  });
+
+  it('falls back on the configured URL', async () => {
+    await scope.handleNotificationClick('Hello');
+    expect(scope.clients.opened).toEqual(['/inbox']);
+  });
+
+  it('loads the configured URL from the manifest after a restart', async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .withCacheState(scope.caches.dehydrate())
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    await scope.handleNotificationClick('Hello');
+    expect(scope.clients.opened).toEqual(['/inbox']);
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
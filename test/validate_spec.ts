@@ -0,0 +1,215 @@
+// The validate spec has tests for manifest validation, on its own and as used by the Driver.
+
+import {Adapter} from '../src/adapter';
+import {CacheDatabase} from '../src/db-cache';
+import {Driver} from '../src/driver';
+import {Manifest} from '../src/manifest';
+import {validateManifest} from '../src/validate';
+
+import {MockRequest} from '../testing/fetch';
+import {MockFileSystemBuilder, MockServerStateBuilder, tmpHashTableForFs} from '../testing/mock';
+import {SwTestHarness, SwTestHarnessBuilder} from '../testing/scope';
+
+const dist = new MockFileSystemBuilder()
+  .addFile('/foo.txt', 'this is foo')
+  .addFile('/bar.txt', 'this is bar')
+  .build();
+
+const manifest: Manifest = {
+  configVersion: 1,
+  assetGroups: [
+    {
+      name: 'assets',
+      mode: 'prefetch',
+      urls: ['/foo.txt'],
+      patterns: [],
+    },
+    {
+      name: 'other',
+      mode: 'lazy',
+      urls: ['/bar.txt'],
+      patterns: ['/unhashed/.*'],
+    },
+  ],
+  dataGroups: [
+    {
+      name: 'api',
+      patterns: ['^/api/.*$'],
+      maxSize: 3,
+      maxAge: 5000,
+      strategy: 'freshness',
+    },
+  ],
+  hashTable: tmpHashTableForFs(dist),
+};
+
+/**
+ * A copy of the valid manifest, which can be broken in various ways.
+ */
+function copy(): any {
+  return JSON.parse(JSON.stringify(manifest));
+}
+
+function errorFrom(fn: () => any): Error|null {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+  return null;
+}
+
+describe('validateManifest', () => {
+  it('accepts a valid manifest', () => {
+    expect(validateManifest(copy())).toEqual(manifest);
+  });
+
+  it('rejects values which are not objects', () => {
+    expect(errorFrom(() => validateManifest(null))!.message).toEqual('Invalid manifest: not an object');
+    expect(errorFrom(() => validateManifest('<html>'))!.message).toEqual('Invalid manifest: not an object');
+  });
+
+  it('rejects unknown config versions', () => {
+    const broken = copy();
+    broken.configVersion = 2;
+    expect(errorFrom(() => validateManifest(broken))!.message).toContain('configVersion is 2');
+  });
+
+  it('rejects unknown asset group modes', () => {
+    const broken = copy();
+    broken.assetGroups[0].mode = 'eager';
+    expect(errorFrom(() => validateManifest(broken))!.message).toContain('assetGroups[0].mode is "eager"');
+  });
+
+  it('rejects unknown data group strategies', () => {
+    const broken = copy();
+    broken.dataGroups[0].strategy = 'fastest';
+    expect(errorFrom(() => validateManifest(broken))!.message).toContain('dataGroups[0].strategy is "fastest"');
+  });
+
+  it('rejects patterns which do not compile', () => {
+    const broken = copy();
+    broken.assetGroups[1].patterns.push('/unhashed/(');
+    broken.dataGroups[0].patterns = '^/api/.*$';
+    const message = errorFrom(() => validateManifest(broken))!.message;
+    expect(message).toContain('assetGroups[1].patterns contains "/unhashed/("');
+    expect(message).toContain('dataGroups[0].patterns must be an array of strings');
+  });
+
+  it('matches asset urls to hashes however they are written', () => {
+    const adapter = new Adapter('http://localhost/');
+    const relative = copy();
+    relative.assetGroups[0].urls = ['foo.txt'];
+    relative.hashTable['http://localhost/bar.txt'] = relative.hashTable['/bar.txt'];
+    delete relative.hashTable['/bar.txt'];
+    expect(validateManifest(relative, url => adapter.normalizeUrl(url))).toBe(relative);
+
+    relative.assetGroups[0].urls = ['http://example.com/foo.txt'];
+    expect(errorFrom(() => validateManifest(relative, url => adapter.normalizeUrl(url)))!.message)
+      .toContain('assetGroups[0].urls contains http://example.com/foo.txt, which has no entry in the hashTable');
+  });
+
+  it('rejects asset urls without a hash', () => {
+    const broken = copy();
+    delete broken.hashTable['/bar.txt'];
+    expect(errorFrom(() => validateManifest(broken))!.message)
+      .toContain('assetGroups[1].urls contains /bar.txt, which has no entry in the hashTable');
+  });
+
+  it('rejects hashes with unsupported algorithms', () => {
+    const broken = copy();
+    broken.hashTable['/bar.txt'] = 'md5-rL0Y20zC+Fzt72VPzMSk2A==';
+    expect(errorFrom(() => validateManifest(broken))!.message)
+      .toContain('hashTable["/bar.txt"] uses an unsupported hash algorithm');
+  });
+
+  it('rejects data groups with missing limits', () => {
+    const broken = copy();
+    delete broken.dataGroups[0].maxAge;
+    expect(errorFrom(() => validateManifest(broken))!.message).toContain('dataGroups[0].maxAge must be a non-negative number');
+  });
+
+  it('rejects malformed match options', () => {
+    const broken = copy();
+    broken.assetGroups[0].match = {ignoreSearch: 'yes'};
+    broken.dataGroups[0].match = {ignoreParams: 'v'};
+    const message = errorFrom(() => validateManifest(broken))!.message;
+    expect(message).toContain('assetGroups[0].match.ignoreSearch must be a boolean');
+    expect(message).toContain('dataGroups[0].match.ignoreParams must be an array of strings');
+  });
+
+  it('rejects a non-boolean outbox', () => {
+    const broken = copy();
+    broken.dataGroups[0].outbox = 'yes';
+    expect(errorFrom(() => validateManifest(broken))!.message).toContain('dataGroups[0].outbox must be a boolean');
+  });
+
+  it('rejects a malformed push config', () => {
+    const broken = copy();
+    broken.push = {openUrl: 3};
+    expect(errorFrom(() => validateManifest(broken))!.message).toContain('push.openUrl must be a string');
+  });
+
+  it('reports every problem at once', () => {
+    const broken = copy();
+    broken.assetGroups[0].mode = 'eager';
+    delete broken.hashTable;
+    const message = errorFrom(() => validateManifest(broken))!.message;
+    expect(message).toContain('assetGroups[0].mode');
+    expect(message).toContain('hashTable must be an object');
+  });
+});
+
+describe('Driver with an invalid manifest', () => {
+  let scope: SwTestHarness;
+  let driver: Driver;
+
+  const server = new MockServerStateBuilder()
+    .withStaticFiles(dist)
+    .withManifest(manifest)
+    .build();
+
+  beforeEach(async () => {
+    scope = new SwTestHarnessBuilder()
+      .withServerState(server)
+      .build();
+    driver = new Driver(scope, scope, new CacheDatabase(scope, scope));
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    await driver.initialized;
+  });
+
+  it('rejects an update with an unknown mode, and keeps serving', async () => {
+    const broken = copy();
+    broken.assetGroups[0].mode = 'eager';
+    scope.updateServerState(new MockServerStateBuilder()
+      .withStaticFiles(dist)
+      .withManifest(broken)
+      .build());
+
+    const err: Error = await driver.checkForUpdate().catch(err => err);
+    expect(err.message).toContain('Invalid manifest');
+    expect(await makeRequest(scope, '/foo.txt')).toEqual('this is foo');
+    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo');
+  });
+
+  it('rejects an update when the manifest is missing', async () => {
+    scope.updateServerState(new MockServerStateBuilder()
+      .withStaticFiles(dist)
+      .build());
+
+    const err: Error = await driver.checkForUpdate().catch(err => err);
+    expect(err.message).toEqual('Manifest fetch failed! (status: 404)');
+    expect(await makeRequest(scope, '/foo.txt', 'new')).toEqual('this is foo');
+  });
+});
+
+async function makeRequest(scope: SwTestHarness, url: string, clientId?: string): Promise<string|null> {
+  const [resPromise, done] = scope.handleFetch(new MockRequest(url), clientId || 'default');
+  await done;
+  const res = await resPromise;
+  scope.clients.add(clientId || 'default');
+  if (res !== undefined) {
+    return res.text();
+  }
+  return null;
+}
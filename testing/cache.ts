@@ -1,15 +1,35 @@
-import {MockResponse} from './fetch';
+import {MockResponse, normalizeMockUrl} from './fetch';
 
 interface DehydratedResponse {
   body: string|null;
+  /**
+   * The contents of a binary body, which JSON can't hold as they are.
+   */
+  bytes?: number[];
   status: number;
   statusText: string;
   headers: {[name: string]: string};
+  type?: ResponseType;
 }
 
-type DehydratedCache = {[url: string]: DehydratedResponse};
+interface DehydratedEntry extends DehydratedResponse {
+  url: string;
+  vary?: {[name: string]: string|null};
+}
+
+type DehydratedCache = DehydratedEntry[];
 type DehydratedCacheStorage = {[name: string]: DehydratedCache};
 
+/**
+ * A cached response, along with the URL it's cached under and the values which the request had for
+ * the headers named by the response's `Vary` header.
+ */
+interface MockCacheEntry {
+  url: string;
+  vary: {[name: string]: string|null};
+  res: Response;
+}
+
 export class MockCacheStorage implements CacheStorage {
   private caches = new Map<string, MockCache>();
 
@@ -69,13 +89,15 @@ export class MockCacheStorage implements CacheStorage {
 }
 
 export class MockCache implements Cache {
-  private cache = new Map<string, Response>();
+  private entries: MockCacheEntry[] = [];
 
   constructor(hydrated?: DehydratedCache) {
     if (hydrated !== undefined) {
-      Object.keys(hydrated).forEach(url => {
-        const resp = hydrated[url];
-        this.cache.set(url, new MockResponse(resp.body, {status: resp.status, statusText: resp.statusText, headers: resp.headers}));
+      this.entries = hydrated.map(entry => {
+        const body = (entry.bytes !== undefined) ? new Uint8Array(entry.bytes).buffer : entry.body;
+        const res = new MockResponse(body, {status: entry.status, statusText: entry.statusText, headers: entry.headers});
+        res.type = entry.type || 'basic';
+        return {url: entry.url, vary: entry.vary || {}, res};
       });
     }
   }
@@ -88,68 +110,108 @@ export class MockCache implements Cache {
     throw 'Not implemented';
   }
 
-  async 'delete'(request: RequestInfo): Promise<boolean> {
-    const url = (typeof request === 'string' ? request : request.url);
-    if (this.cache.has(url)) {
-      this.cache.delete(url);
-      return true;
-    }
-    return false;
+  async 'delete'(request: RequestInfo, options?: CacheQueryOptions): Promise<boolean> {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => !this.matches(entry, request, options));
+    return this.entries.length !== before;
   }
 
   async keys(match?: Request|string): Promise<string[]> {
     if (match !== undefined) {
       throw 'Not implemented';
     }
-    return Array.from(this.cache.keys());
+    return this.entries.map(entry => entry.url);
   }
 
   async match(request: RequestInfo, options?: CacheQueryOptions): Promise<Response> {
-    const url = (typeof request === 'string' ? request : request.url);
+    const entry = this.entries.filter(entry => this.matches(entry, request, options))[0];
     // TODO: cleanup typings. Typescript doesn't know this can resolve to undefined.
-    let res = this.cache.get(url);
-    if (res !== undefined) {
-      res = res.clone();
-    }
-    return res!;
+    return (entry !== undefined ? entry.res.clone() : undefined)!;
   }
 
-
   async matchAll(request?: Request|string, options?: CacheQueryOptions): Promise<Response[]> {
     if (request === undefined) {
-      return Array.from(this.cache.values());
-    }
-    const url = (typeof request === 'string' ? request : request.url);
-    if (this.cache.has(url)) {
-      return [this.cache.get(url)!];
-    } else {
-      return [];
+      return this.entries.map(entry => entry.res);
     }
+    return this.entries
+      .filter(entry => this.matches(entry, request, options))
+      .map(entry => entry.res);
   }
 
   async put(request: RequestInfo, response: Response): Promise<void> {
-    const url = (typeof request === 'string' ? request : request.url);
-    this.cache.set(url, response.clone());
-    return;
+    // Like the browser, nothing is replaced unless the whole body arrives.
+    await (response as MockResponse).buffer();
+
+    // Then whatever the request already matches is replaced, honoring `Vary`.
+    await this.delete(request);
+    const vary: {[name: string]: string|null} = {};
+    varyHeaders(response).forEach(name => {
+      vary[name] = (typeof request === 'string') ? null : request.headers.get(name);
+    });
+    this.entries.push({url: urlOf(request), vary, res: response.clone()});
   }
 
   dehydrate(): DehydratedCache {
-    const dehydrated: DehydratedCache = {};
-    Array.from(this.cache.keys()).forEach(url => {
-      const resp = this.cache.get(url)! as MockResponse;
-      const dehydratedResp = {
-        body: resp._body,
+    return this.entries.map(entry => {
+      const resp = entry.res as MockResponse;
+      const dehydrated: DehydratedEntry = {
+        url: entry.url,
+        vary: entry.vary,
+        body: (typeof resp._body === 'string') ? resp._body : null,
         status: resp.status,
         statusText: resp.statusText,
         headers: {},
-      } as DehydratedResponse;
+        type: resp.type,
+      };
+
+      if (resp._body instanceof ArrayBuffer) {
+        dehydrated.bytes = Array.from(new Uint8Array(resp._body));
+      }
 
       resp.headers.forEach((value, name) => {
-        dehydratedResp.headers[name] = value;
+        dehydrated.headers[name] = value;
       });
+      return dehydrated;
+    });
+  }
 
-      dehydrated[url] = dehydratedResp;
+  private matches(entry: MockCacheEntry, request: RequestInfo, options: CacheQueryOptions = {}): boolean {
+    let url = urlOf(request);
+    let entryUrl = entry.url;
+    if (options.ignoreSearch) {
+      url = url.split('?')[0];
+      entryUrl = entryUrl.split('?')[0];
+    }
+    if (url !== entryUrl) {
+      return false;
+    }
+    if (options.ignoreVary) {
+      return true;
+    }
+    return varyHeaders(entry.res).every(name => {
+      if (name === '*') {
+        return false;
+      }
+      const value = (typeof request === 'string') ? null : request.headers.get(name);
+      return value === entry.vary[name];
     });
-    return dehydrated;
   }
-}
\ No newline at end of file
+}
+
+function urlOf(request: RequestInfo): string {
+  return normalizeMockUrl(typeof request === 'string' ? request : request.url);
+}
+
+/**
+ * The (lower case) names of the request headers which a response varies on.
+ */
+function varyHeaders(res: Response): string[] {
+  const vary = res.headers.get('Vary');
+  if (vary === null) {
+    return [];
+  }
+  return vary
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+}
@@ -0,0 +1,26 @@
+import {SwTestHarness} from './scope';
+
+/**
+ * The page's view of the SW (`navigator.serviceWorker`), for a page running as the given client of
+ * the test harness.
+ */
+export class MockServiceWorkerContainer {
+  controller: {postMessage(message: Object): void}|null = null;
+  private listeners: Function[] = [];
+
+  constructor(scope: SwTestHarness, clientId: string) {
+    scope.clients.add(clientId);
+    scope.clients.getMock(clientId)!.subscribe(data => this.listeners.forEach(listener => listener({data})));
+    this.controller = {
+      postMessage: (message: Object) => {
+        scope.handleMessage(message, clientId);
+      },
+    };
+  }
+
+  addEventListener(event: string, listener: Function): void {
+    if (event === 'message') {
+      this.listeners.push(listener);
+    }
+  }
+}
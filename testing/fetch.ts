@@ -1,10 +1,49 @@
+import {utf8Decode, utf8Encode} from '../src/encoding';
+
+/**
+ * The origin which the SW under test is served from.
+ */
+export const MOCK_ORIGIN = 'http://localhost';
+
+/**
+ * Like the browser, treat relative URLs and absolute URLs on `MOCK_ORIGIN` as the same resource.
+ * Same-origin URLs are reduced to their paths, and any other URL is left alone.
+ */
+export function normalizeMockUrl(url: string): string {
+  return url.startsWith(MOCK_ORIGIN + '/') ? url.substr(MOCK_ORIGIN.length) : url;
+}
+
 export class MockBody implements Body {
   bodyUsed: boolean = false;
 
-  constructor(public _body: string|null) {}
+  /**
+   * A body which was given as a stream, until it's read.
+   */
+  protected _stream: MockReadableStream|null = null;
+
+  constructor(public _body: string|ArrayBuffer|null) {}
+
+  /**
+   * Read a body which was given as a stream, so it can be used like any other.
+   */
+  async buffer(): Promise<void> {
+    if (this._stream !== null) {
+      const stream = this._stream;
+      this._stream = null;
+      this._body = await stream.readAll();
+    }
+  }
 
   async arrayBuffer(): Promise<ArrayBuffer> {
-    throw 'Not implemented';
+    await this.buffer();
+    this.bodyUsed = true;
+    if (this._body === null) {
+      return new ArrayBuffer(0);
+    } else if (typeof this._body === 'string') {
+      return utf8Encode(this._body).buffer as ArrayBuffer;
+    } else {
+      return this._body.slice(0);
+    }
   }
 
   async blob(): Promise<Blob> {
@@ -12,18 +51,16 @@ export class MockBody implements Body {
   }
 
   async json(): Promise<any> {
-    this.bodyUsed = true;
-    if (this._body !== null) {
-      return JSON.parse(this._body);
-    } else {
-      throw new Error('No body');
-    }
+    return JSON.parse(await this.text());
   }
 
   async text(): Promise<string> {
+    await this.buffer();
     this.bodyUsed = true;
-    if (this._body !== null) {
+    if (typeof this._body === 'string') {
       return this._body;
+    } else if (this._body !== null) {
+      return utf8Decode(new Uint8Array(this._body));
     } else {
       throw new Error('No body');
     }
@@ -34,14 +71,17 @@ export class MockBody implements Body {
   }
 }
 
+/**
+ * Like the browser's, header names are case-insensitive, and are reported in lower case.
+ */
 export class MockHeaders implements Headers {
   map = new Map<string, string>();
   append(name: string, value: string): void {
-    this.map.set(name, value);
+    this.map.set(name.toLowerCase(), value);
   }
 
   delete(name: string): void {
-    this.map.delete(name);
+    this.map.delete(name.toLowerCase());
   }
 
   forEach(callback: Function): void {
@@ -49,15 +89,15 @@ export class MockHeaders implements Headers {
   }
 
   get(name: string): string | null {
-    return this.map.get(name) || null;
+    return this.map.get(name.toLowerCase()) || null;
   }
 
   has(name: string): boolean {
-    return this.map.has(name);
+    return this.map.has(name.toLowerCase());
   }
 
   set(name: string, value: string): void {
-    this.map.set(name, value);
+    this.map.set(name.toLowerCase(), value);
   }
 }
 
@@ -68,7 +108,7 @@ export class MockRequest extends MockBody implements Request {
   readonly headers: Headers = new MockHeaders();
   readonly integrity: string = '';
   readonly keepalive: boolean = true;
-  readonly method: string = 'GET'
+  readonly method: string = 'GET';
   readonly mode: RequestMode = 'cors';
   readonly redirect: RequestRedirect = 'error';
   readonly referrer: string = '';
@@ -82,13 +122,25 @@ export class MockRequest extends MockBody implements Request {
       throw 'Not implemented';
     }
     this.url = input;
+    if (init !== undefined) {
+      this.method = init.method || this.method;
+      this.mode = init.mode || this.mode;
+      if (init.headers !== undefined) {
+        const headers = init.headers as any;
+        if (headers instanceof MockHeaders) {
+          headers.forEach((value: string, name: string) => this.headers.set(name, value));
+        } else {
+          Object.keys(headers).forEach(name => this.headers.set(name, headers[name]));
+        }
+      }
+    }
   }
 
   clone(): Request {
     if (this.bodyUsed) {
       throw 'Body already consumed';
     }
-    return new MockRequest(this.url, {body: this._body});
+    return new MockRequest(this.url, {body: this._body, method: this.method, mode: this.mode, headers: this.headers});
   }
 }
 
@@ -99,14 +151,16 @@ export class MockResponse extends MockBody implements Response {
   }
   readonly status: number;
   readonly statusText: string;
-  readonly type: ResponseType = 'basic';
+  type: ResponseType = 'basic';
   readonly url: string = '';
-  readonly body: ReadableStream|null = null;
 
   constructor(body?: any, init: ResponseInit = {}) {
-    super(typeof body === 'string' ? body : null);
+    super((typeof body === 'string' || body instanceof ArrayBuffer) ? body : null);
+    if (body instanceof MockReadableStream) {
+      this._stream = body;
+    }
     this.status = (init.status !== undefined) ? init.status : 200;
-    this.statusText = init.statusText || 'OK';
+    this.statusText = (init.statusText !== undefined) ? init.statusText : 'OK';
     if (init.headers !== undefined) {
       if (init.headers instanceof MockHeaders) {
         this.headers = init.headers;
@@ -118,10 +172,115 @@ export class MockResponse extends MockBody implements Response {
     }
   }
 
+  /**
+   * The body as a stream, which delivers it in small chunks.
+   */
+  get body(): ReadableStream|null {
+    if (this._stream !== null) {
+      return this._stream;
+    } else if (this._body === null) {
+      return null;
+    }
+    const bytes = (typeof this._body === 'string') ? utf8Encode(this._body) : new Uint8Array(this._body);
+    return MockReadableStream.of(bytes, () => this.bodyUsed = true);
+  }
+
   clone(): Response {
     if (this.bodyUsed) {
       throw 'Body already consumed';
+    } else if (this._stream !== null) {
+      throw 'Not implemented';
     }
-    return new MockResponse(this._body, {status: this.status, statusText: this.statusText, headers: this.headers})
+    const clone = new MockResponse(this._body, {status: this.status, statusText: this.statusText, headers: this.headers});
+    clone.type = this.type;
+    return clone;
+  }
+
+  /**
+   * The response to a cross-origin `no-cors` request, whose status and contents are hidden.
+   */
+  static opaque(): MockResponse {
+    const res = new MockResponse('', {status: 0, statusText: ''});
+    res.type = 'opaque';
+    return res;
+  }
+}
+
+/**
+ * How many bytes a `MockReadableStream` delivers at a time. It's small, and not a multiple of any
+ * hash's block size, so consumers can't get away with assuming a body arrives in one piece.
+ */
+const MOCK_CHUNK_SIZE = 100;
+
+/**
+ * A stream of the chunks `pull` resolves to, which ends once it resolves to `null`.
+ */
+export class MockReadableStream implements ReadableStream {
+  locked = false;
+  private done = false;
+
+  constructor(private pull: () => Promise<Uint8Array|null>) {}
+
+  /**
+   * A stream of `bytes`, in small chunks.
+   */
+  static of(bytes: Uint8Array, onRead: () => void = () => {}): MockReadableStream {
+    let offset = 0;
+    return new MockReadableStream(async () => {
+      onRead();
+      if (offset >= bytes.length) {
+        return null;
+      }
+      const value = bytes.slice(offset, offset + MOCK_CHUNK_SIZE);
+      offset += value.length;
+      return value;
+    });
   }
-}
\ No newline at end of file
+
+  async cancel(): Promise<void> {
+    this.done = true;
+  }
+
+  getReader(): ReadableStreamReader {
+    if (this.locked) {
+      throw new TypeError('Stream already locked');
+    }
+    this.locked = true;
+    return {
+      cancel: () => this.cancel(),
+      read: async () => {
+        const value = !this.done ? await this.pull() : null;
+        if (value === null) {
+          this.done = true;
+          return {done: true, value: undefined};
+        }
+        return {done: false, value};
+      },
+      releaseLock: () => this.locked = false,
+    };
+  }
+
+  /**
+   * Read the rest of the stream into a single buffer.
+   */
+  async readAll(): Promise<ArrayBuffer> {
+    const reader = this.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    while (true) {
+      const {done, value} = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      length += value.length;
+    }
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return bytes.buffer as ArrayBuffer;
+  }
+}
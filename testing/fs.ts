@@ -0,0 +1,34 @@
+import {Filesystem} from '../cli/filesystem';
+import {utf8Encode} from '../src/encoding';
+
+/**
+ * An in-memory `Filesystem` for the generator.
+ */
+export class MockFilesystem implements Filesystem {
+  private files = new Map<string, string>();
+
+  constructor(files: {[path: string]: string}) {
+    Object.keys(files).forEach(path => this.files.set(path, files[path]));
+  }
+
+  async list(dir: string): Promise<string[]> {
+    return Array
+      .from(this.files.keys())
+      .filter(path => path.startsWith(dir));
+  }
+
+  async read(path: string): Promise<string> {
+    if (!this.files.has(path)) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return this.files.get(path)!;
+  }
+
+  async readBinary(path: string): Promise<ArrayBuffer> {
+    return utf8Encode(await this.read(path)).buffer as ArrayBuffer;
+  }
+
+  async write(path: string, contents: string): Promise<void> {
+    this.files.set(path, contents);
+  }
+}
@@ -0,0 +1,23 @@
+import {Database} from '../src/database';
+import {CacheDatabase} from '../src/db-cache';
+import {IndexedDbDatabase} from '../src/db-idb';
+import {SwTestHarness} from './scope';
+
+export interface DatabaseBackend {
+  name: string;
+  create(scope: SwTestHarness): Database;
+}
+
+/**
+ * Every `Database` implementation, so specs can run against each of them in turn.
+ */
+export const DATABASE_BACKENDS: DatabaseBackend[] = [
+  {
+    name: 'CacheDatabase',
+    create: scope => new CacheDatabase(scope, scope),
+  },
+  {
+    name: 'IndexedDbDatabase',
+    create: scope => new IndexedDbDatabase(scope.indexedDB),
+  },
+];
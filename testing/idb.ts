@@ -0,0 +1,376 @@
+type DehydratedStore = {[key: string]: any};
+type DehydratedIdb = {[name: string]: {version: number, stores: {[name: string]: DehydratedStore}}};
+
+/**
+ * The persistent state of a single database, shared by all connections to it.
+ */
+class MockIdbState {
+  stores = new Map<string, Map<string, any>>();
+  connections: MockIdbDatabase[] = [];
+
+  constructor(public version: number) {}
+}
+
+/**
+ * Structured cloning, for the kind of values the SW stores.
+ */
+function clone(value: any): any {
+  return (value === undefined) ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function mockError(name: string, message: string): Error {
+  const err = new Error(message);
+  err.name = name;
+  return err;
+}
+
+export class MockIndexedDb implements IDBFactory {
+  private databases = new Map<string, MockIdbState>();
+
+  constructor(hydrateFrom?: string) {
+    if (hydrateFrom !== undefined) {
+      const hydrated = JSON.parse(hydrateFrom) as DehydratedIdb;
+      Object.keys(hydrated).forEach(name => {
+        const state = new MockIdbState(hydrated[name].version);
+        const stores = hydrated[name].stores;
+        Object.keys(stores).forEach(storeName => {
+          const store = new Map<string, any>();
+          Object.keys(stores[storeName]).forEach(key => store.set(key, stores[storeName][key]));
+          state.stores.set(storeName, store);
+        });
+        this.databases.set(name, state);
+      });
+    }
+  }
+
+  cmp(first: any, second: any): number {
+    throw 'Not implemented';
+  }
+
+  deleteDatabase(name: string): IDBOpenDBRequest {
+    const req = new MockIdbRequest(null);
+    Promise.resolve().then(() => {
+      const state = this.databases.get(name);
+      if (state !== undefined) {
+        state.connections.forEach(conn => conn._versionChange(null));
+        this.databases.delete(name);
+      }
+      req._succeed(undefined);
+    });
+    return req as any as IDBOpenDBRequest;
+  }
+
+  open(name: string, version?: number): IDBOpenDBRequest {
+    const req = new MockIdbRequest(null);
+    Promise.resolve().then(() => {
+      let state = this.databases.get(name);
+      if (state === undefined) {
+        state = new MockIdbState(0);
+        this.databases.set(name, state);
+      }
+      const target = (version !== undefined) ? version : Math.max(state.version, 1);
+      if (target < state.version) {
+        req._fail(mockError('VersionError', `Requested version ${target} is less than ${state.version}`));
+        return;
+      }
+
+      const conn = new MockIdbDatabase(name, state);
+      if (target > state.version) {
+        // Let any other open connections know they're in the way.
+        state.connections.forEach(other => other._versionChange(target));
+
+        state.version = target;
+        conn._upgrading = true;
+        req.result = conn;
+        if (req.onupgradeneeded) {
+          req.onupgradeneeded({target: req} as any);
+        }
+        conn._upgrading = false;
+      }
+      state.connections.push(conn);
+      req._succeed(conn);
+    });
+    return req as any as IDBOpenDBRequest;
+  }
+
+  dehydrate(): string {
+    const dehydrated: DehydratedIdb = {};
+    this.databases.forEach((state, name) => {
+      const stores: {[name: string]: DehydratedStore} = {};
+      state.stores.forEach((store, storeName) => {
+        stores[storeName] = {};
+        store.forEach((value, key) => stores[storeName][key] = value);
+      });
+      dehydrated[name] = {version: state.version, stores};
+    });
+    return JSON.stringify(dehydrated);
+  }
+}
+
+export class MockIdbRequest {
+  result: any = undefined;
+  error: Error|null = null;
+  readyState: string = 'pending';
+  onsuccess: Function|null = null;
+  onerror: Function|null = null;
+  onupgradeneeded: Function|null = null;
+  onblocked: Function|null = null;
+
+  constructor(readonly transaction: MockIdbTransaction|null) {}
+
+  _succeed(result: any): void {
+    this.result = result;
+    this.readyState = 'done';
+    if (this.onsuccess) {
+      this.onsuccess({target: this});
+    }
+  }
+
+  _fail(error: Error): void {
+    this.error = error;
+    this.readyState = 'done';
+    if (this.onerror) {
+      this.onerror({target: this});
+    }
+  }
+}
+
+export class MockIdbDatabase {
+  onversionchange: Function|null = null;
+  onabort: Function|null = null;
+  onerror: Function|null = null;
+  _upgrading = false;
+  private closed = false;
+
+  constructor(readonly name: string, private state: MockIdbState) {}
+
+  get version(): number {
+    return this.state.version;
+  }
+
+  get objectStoreNames(): DOMStringList {
+    const names = Array.from(this.state.stores.keys()).sort();
+    return {
+      length: names.length,
+      contains: (name: string) => names.indexOf(name) !== -1,
+      item: (index: number) => (index < names.length) ? names[index] : null,
+    } as any as DOMStringList;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.state.connections = this.state.connections.filter(conn => conn !== this);
+  }
+
+  createObjectStore(name: string): void {
+    if (!this._upgrading) {
+      throw mockError('InvalidStateError', 'Object stores can only be created during an upgrade');
+    }
+    if (this.state.stores.has(name)) {
+      throw mockError('ConstraintError', `Object store ${name} already exists`);
+    }
+    this.state.stores.set(name, new Map<string, any>());
+  }
+
+  deleteObjectStore(name: string): void {
+    if (!this._upgrading) {
+      throw mockError('InvalidStateError', 'Object stores can only be deleted during an upgrade');
+    }
+    if (!this.state.stores.delete(name)) {
+      throw mockError('NotFoundError', `No object store named ${name}`);
+    }
+  }
+
+  transaction(storeNames: string|string[], mode: string = 'readonly'): IDBTransaction {
+    if (this.closed) {
+      throw mockError('InvalidStateError', 'The connection is closed');
+    }
+    const names = (typeof storeNames === 'string') ? [storeNames] : storeNames;
+    names.forEach(name => {
+      if (!this.state.stores.has(name)) {
+        throw mockError('NotFoundError', `No object store named ${name}`);
+      }
+    });
+    return new MockIdbTransaction(this.state, names, mode) as any as IDBTransaction;
+  }
+
+  _versionChange(newVersion: number|null): void {
+    if (this.onversionchange) {
+      this.onversionchange({oldVersion: this.state.version, newVersion});
+    }
+  }
+}
+
+/**
+ * A transaction keeps a journal of its writes, which is applied to the stores in one go when the
+ * transaction completes, or thrown away if it aborts.
+ */
+export class MockIdbTransaction {
+  oncomplete: Function|null = null;
+  onerror: Function|null = null;
+  onabort: Function|null = null;
+  error: Error|null = null;
+
+  private journal = new Map<string, Map<string, {value: any}|null>>();
+  private pending = 0;
+  private finished = false;
+
+  constructor(private state: MockIdbState, private storeNames: string[], readonly mode: string) {
+    storeNames.forEach(name => this.journal.set(name, new Map<string, {value: any}|null>()));
+    // A transaction with no requests completes on its own.
+    this.maybeComplete();
+  }
+
+  objectStore(name: string): IDBObjectStore {
+    if (this.storeNames.indexOf(name) === -1) {
+      throw mockError('NotFoundError', `Object store ${name} is not in the scope of this transaction`);
+    }
+    return new MockIdbObjectStore(this, name) as any as IDBObjectStore;
+  }
+
+  abort(): void {
+    this.fail(mockError('AbortError', 'The transaction was aborted'));
+  }
+
+  _get(store: string, key: string): any {
+    const entry = this.journal.get(store)!.get(key);
+    if (entry !== undefined) {
+      return (entry === null) ? undefined : clone(entry.value);
+    }
+    return clone(this.state.stores.get(store)!.get(key));
+  }
+
+  _put(store: string, key: string, value: any): void {
+    this.assertWritable();
+    this.journal.get(store)!.set(key, {value: clone(value)});
+  }
+
+  _delete(store: string, key: string): void {
+    this.assertWritable();
+    this.journal.get(store)!.set(key, null);
+  }
+
+  _keys(store: string): string[] {
+    const keys = new Set<string>(Array.from(this.state.stores.get(store)!.keys()));
+    this.journal.get(store)!.forEach((entry, key) => {
+      if (entry === null) {
+        keys.delete(key);
+      } else {
+        keys.add(key);
+      }
+    });
+    return Array.from(keys.values()).sort();
+  }
+
+  /**
+   * Run an operation as a request against this transaction, asynchronously.
+   */
+  _request(op: () => any, req: MockIdbRequest = new MockIdbRequest(this)): MockIdbRequest {
+    if (this.finished) {
+      throw mockError('TransactionInactiveError', 'The transaction has finished');
+    }
+    this.pending++;
+    Promise.resolve().then(() => {
+      this.pending--;
+      if (this.finished) {
+        return;
+      }
+      let result: any;
+      try {
+        result = op();
+      } catch (err) {
+        req._fail(err);
+        this.fail(err);
+        return;
+      }
+      req._succeed(result);
+      this.maybeComplete();
+    });
+    return req;
+  }
+
+  private assertWritable(): void {
+    if (this.mode === 'readonly') {
+      throw mockError('ReadOnlyError', 'The transaction is read-only');
+    }
+  }
+
+  private maybeComplete(): void {
+    // Like a real transaction, stay active until all microtasks have run, so follow-up requests
+    // made from success handlers (or from code awaiting them) still count.
+    setTimeout(() => {
+      if (this.pending > 0 || this.finished) {
+        return;
+      }
+      this.finished = true;
+      this.journal.forEach((entries, store) => {
+        const data = this.state.stores.get(store);
+        if (data === undefined) {
+          return;
+        }
+        entries.forEach((entry, key) => {
+          if (entry === null) {
+            data.delete(key);
+          } else {
+            data.set(key, entry.value);
+          }
+        });
+      });
+      if (this.oncomplete) {
+        this.oncomplete({target: this});
+      }
+    }, 0);
+  }
+
+  private fail(err: Error): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.error = err;
+    if (this.onerror) {
+      this.onerror({target: this});
+    }
+    if (this.onabort) {
+      this.onabort({target: this});
+    }
+  }
+}
+
+export class MockIdbObjectStore {
+  constructor(private tx: MockIdbTransaction, readonly name: string) {}
+
+  get(key: string): IDBRequest {
+    return this.tx._request(() => this.tx._get(this.name, key)) as any as IDBRequest;
+  }
+
+  put(value: any, key: string): IDBRequest {
+    return this.tx._request(() => {
+      this.tx._put(this.name, key, value);
+      return key;
+    }) as any as IDBRequest;
+  }
+
+  'delete'(key: string): IDBRequest {
+    return this.tx._request(() => this.tx._delete(this.name, key)) as any as IDBRequest;
+  }
+
+  openCursor(): IDBRequest {
+    const req = new MockIdbRequest(this.tx);
+    const keys = this.tx._keys(this.name);
+    const step = (index: number): void => {
+      this.tx._request(() => {
+        if (index >= keys.length) {
+          return null;
+        }
+        return {
+          key: keys[index],
+          value: this.tx._get(this.name, keys[index]),
+          'continue': () => step(index + 1),
+        };
+      }, req);
+    };
+    step(0);
+    return req as any as IDBRequest;
+  }
+}
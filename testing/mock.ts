@@ -1,26 +1,26 @@
 import {Manifest, AssetGroupConfig} from '../src/manifest';
-import {sha1} from '../src/sha1';
-import {MockResponse} from './fetch';
+import {sha1, sha1Binary} from '../src/sha1';
+import {MockResponse, normalizeMockUrl} from './fetch';
 
 type HeaderMap = {[key: string]: string};
 
 export class MockFile {
-  constructor(readonly path: string, readonly contents: string, readonly headers = {}, readonly hashThisFile: boolean) {}
+  constructor(readonly path: string, readonly contents: string|ArrayBuffer, readonly headers = {}, readonly hashThisFile: boolean) {}
 
   get hash(): string {
-    return sha1(this.contents);
+    return (typeof this.contents === 'string') ? sha1(this.contents) : sha1Binary(this.contents);
   }
 }
 
 export class MockFileSystemBuilder {
   private resources = new Map<string, MockFile>();
 
-  addFile(path: string, contents: string, headers?: HeaderMap): MockFileSystemBuilder {
+  addFile(path: string, contents: string|ArrayBuffer, headers?: HeaderMap): MockFileSystemBuilder {
     this.resources.set(path, new MockFile(path, contents, headers, true));
     return this;
   }
 
-  addUnhashedFile(path: string, contents: string, headers?: HeaderMap): MockFileSystemBuilder {
+  addUnhashedFile(path: string, contents: string|ArrayBuffer, headers?: HeaderMap): MockFileSystemBuilder {
     this.resources.set(path, new MockFile(path, contents, headers, false));
     return this;
   }
@@ -66,6 +66,14 @@ export class MockServerStateBuilder {
     return this;
   }
 
+  /**
+   * Make requests for a path fail with an error status.
+   */
+  withError(path: string, status: number = 500): MockServerStateBuilder {
+    this.resources.set(path, new MockResponse(null, {status, statusText: 'Server Error'}));
+    return this;
+  }
+
   withManifest(manifest: Manifest): MockServerStateBuilder {
     this.resources.set('/ngsw.json', new MockResponse(JSON.stringify(manifest)));
     return this;
@@ -82,14 +90,27 @@ export class MockServerState {
   constructor(private resources: Map<string, Response>) {}
 
   async fetch(req: Request): Promise<Response> {
-    const url = req.url.split('?')[0];
+    const url = normalizeMockUrl(req.url).split('?')[0];
     this.requests.push(req);
+
+    // A cross-origin request made without CORS gets an opaque response, whatever the server says.
+    if (req.mode === 'no-cors' && !url.startsWith('/')) {
+      return MockResponse.opaque();
+    }
+
     if (this.resources.has(url)) {
       return this.resources.get(url)!.clone();
     }
     return new MockResponse(null, {status: 404, statusText: 'Not Found'});
   }
 
+  /**
+   * The requests which haven't been asserted on or cleared yet, in the order they were made.
+   */
+  get recordedRequests(): Request[] {
+    return this.requests.slice();
+  }
+
   assertSawRequestFor(url: string): void {
     if (!this.sawRequestFor(url)) {
       throw new Error(`Expected request for ${url}, got none.`);
@@ -103,7 +124,7 @@ export class MockServerState {
   }
 
   sawRequestFor(url: string): boolean {
-    const matching = this.requests.filter(req => req.url.split('?')[0] === url);
+    const matching = this.requests.filter(req => normalizeMockUrl(req.url).split('?')[0] === url);
     if (matching.length > 0) {
       this.requests = this.requests.filter(req => req !== matching[0]);
       return true;
@@ -1,8 +1,15 @@
+/// <reference types="node" />
+
+import {createHash} from 'crypto';
+
 import {Adapter, Context} from '../src/adapter';
+import {utf8Encode} from '../src/encoding';
+import {Logger} from '../src/logger';
 import {Manifest, AssetGroupConfig} from '../src/manifest';
 import {sha1} from '../src/sha1'
 import {MockCacheStorage} from './cache';
-import {MockRequest, MockResponse} from './fetch';
+import {MOCK_ORIGIN, MockReadableStream, MockRequest, MockResponse} from './fetch';
+import {MockIndexedDb} from './idb';
 import {MockServerState, MockServerStateBuilder} from './mock';
 
 const EMPTY_SERVER_STATE = new MockServerStateBuilder().build();
@@ -10,62 +17,175 @@ const EMPTY_SERVER_STATE = new MockServerStateBuilder().build();
 export class SwTestHarnessBuilder {
   private server = EMPTY_SERVER_STATE;
   private caches = new MockCacheStorage();
+  private indexedDB = new MockIndexedDb();
 
   withCacheState(cache: string): SwTestHarnessBuilder {
     this.caches = new MockCacheStorage(cache);
     return this;
   }
 
+  withIndexedDbState(state: string): SwTestHarnessBuilder {
+    this.indexedDB = new MockIndexedDb(state);
+    return this;
+  }
+
   withServerState(state: MockServerState): SwTestHarnessBuilder {
     this.server = state;
     return this;
   }
 
   build(): SwTestHarness {
-    return new SwTestHarness(this.server, this.caches);
+    return new SwTestHarness(this.server, this.caches, this.indexedDB);
+  }
+}
+
+export class MockClient {
+  queue: Object[] = [];
+  private listeners: ((message: Object) => void)[] = [];
+
+  /**
+   * Whether the window has been brought to the front, such as by a click on a notification.
+   */
+  focused = false;
+
+  constructor(readonly id: string, readonly url: string = MOCK_ORIGIN + '/') {}
+
+  async focus(): Promise<MockClient> {
+    this.focused = true;
+    return this;
+  }
+
+  postMessage(message: Object): void {
+    this.queue.push(message);
+    // Like a real page, receive the message asynchronously.
+    this.listeners.forEach(listener => Promise.resolve().then(() => listener(message)));
+  }
+
+  /**
+   * Receive any messages posted to this client from now on, as the page would.
+   */
+  subscribe(listener: (message: Object) => void): void {
+    this.listeners.push(listener);
   }
 }
 
 export class MockClients implements Clients {
-  private ids = new Set<string>();
+  private clients = new Map<string, MockClient>();
 
-  add(clientId: string): void {
-    this.ids.add(clientId);
+  /**
+   * URLs of the windows which the SW has opened, in order.
+   */
+  opened: string[] = [];
+
+  add(clientId: string, url?: string): void {
+    if (this.clients.has(clientId)) {
+      return;
+    }
+    this.clients.set(clientId, new MockClient(clientId, url));
   }
 
   remove(clientId: string): void {
-    this.ids.delete(clientId);
+    this.clients.delete(clientId);
   }
 
   async get(id: string): Promise<Client> {
-    return {id} as any;
+    return this.getMock(id) as any as Client;
+  }
+
+  getMock(id: string): MockClient|undefined {
+    return this.clients.get(id);
   }
 
   async matchAll(): Promise<Client[]> {
     return Array
-      .from(this.ids.keys())
-      .map(id => ({id} as any));
+      .from(this.clients.values())
+      .map(client => client as any as Client);
+  }
+
+  /**
+   * Whether the SW has taken control of the clients.
+   */
+  claimed = false;
+
+  async claim(): Promise<any> {
+    this.claimed = true;
+  }
+
+  async openWindow(url: string): Promise<WindowClient|null> {
+    this.opened.push(url);
+    const client = new MockClient(`window-${this.opened.length}`, new URL(url, MOCK_ORIGIN).href);
+    client.focused = true;
+    this.clients.set(client.id, client);
+    return client as any as WindowClient;
+  }
+}
+
+export class MockPushSubscription {
+  constructor(readonly endpoint: string, readonly applicationServerKey: string, private manager: MockPushManager) {}
+
+  toJSON(): Object {
+    return {endpoint: this.endpoint, keys: {p256dh: 'p256dh', auth: 'auth'}};
+  }
+
+  async unsubscribe(): Promise<boolean> {
+    this.manager.subscription = null;
+    return true;
+  }
+}
+
+export class MockPushManager {
+  subscription: MockPushSubscription|null = null;
+
+  async getSubscription(): Promise<MockPushSubscription|null> {
+    return this.subscription;
   }
 
-  async claim(): Promise<any> {}
+  async subscribe(options: PushSubscriptionOptionsInit): Promise<MockPushSubscription> {
+    if (!options.userVisibleOnly) {
+      throw new Error('Only user-visible pushes are supported');
+    }
+    this.subscription = new MockPushSubscription('https://push.example.com/1', options.applicationServerKey, this);
+    return this.subscription;
+  }
+}
+
+export class MockRegistration {
+  readonly pushManager = new MockPushManager();
+
+  /**
+   * Notifications which have been shown, in order.
+   */
+  notifications: {title: string, options: NotificationOptions}[] = [];
+
+  constructor(readonly scope: string) {}
+
+  async showNotification(title: string, options: NotificationOptions = {}): Promise<void> {
+    this.notifications.push({title, options});
+  }
 }
 
 export class SwTestHarness implements ServiceWorkerGlobalScope, Adapter, Context {
   readonly clients = new MockClients();
+  readonly logger: Logger = new Logger(this);
   private eventHandlers = new Map<string, Function>();
-  readonly registration: ServiceWorkerRegistration = {
-    scope: 'http://localhost/',
-  } as any;
+  readonly scopeUrl = 'http://localhost/';
+  readonly registration = new MockRegistration(this.scopeUrl) as any as ServiceWorkerRegistration;
 
   time: number;
 
+  /**
+   * Whether the network is reachable. While offline, every fetch fails the same way it would
+   * in a browser.
+   */
+  online = true;
+
   private timers: {
     at: number,
     fn: Function,
     fired: boolean,
   }[] = [];
 
-  constructor(private server: MockServerState, readonly caches: MockCacheStorage) {
+  constructor(private server: MockServerState, readonly caches: MockCacheStorage, readonly indexedDB: MockIndexedDb) {
     this.time = Date.now();
   }
 
@@ -74,6 +194,9 @@ export class SwTestHarness implements ServiceWorkerGlobalScope, Adapter, Context
   }
 
   fetch(req: string|Request): Promise<Response> {
+    if (!this.online) {
+      return Promise.reject(new TypeError('Failed to fetch'));
+    }
     if (typeof req === 'string') {
       return this.server.fetch(new MockRequest(req));
     } else {
@@ -89,15 +212,48 @@ export class SwTestHarness implements ServiceWorkerGlobalScope, Adapter, Context
     this.eventHandlers.delete(event);
   }
 
-  newRequest(url: string): Request {
-    return new MockRequest(url);
+  newRequest(url: string, init?: RequestInit): Request {
+    return new MockRequest(url, init);
   }
 
-  newResponse(body: string): Response {
-    return new MockResponse(body);
+  newResponse(body: any, init?: ResponseInit): Response {
+    return new MockResponse(body, init);
   }
 
-  async skipWaiting(): Promise<void> {}
+  normalizeUrl(url: string): string {
+    const parsed = new URL(url, this.scopeUrl);
+    if (parsed.origin === MOCK_ORIGIN) {
+      return parsed.pathname + parsed.search;
+    }
+    return parsed.href;
+  }
+
+  digest(algorithm: string, data: BufferSource): Promise<ArrayBuffer> {
+    // WebCrypto names the algorithm 'SHA-256', where Node calls it 'sha256'.
+    const hash = createHash(algorithm.replace('-', '').toLowerCase());
+    const bytes = ArrayBuffer.isView(data) ?
+        Buffer.from(data.buffer as ArrayBuffer, data.byteOffset, data.byteLength) :
+        Buffer.from(data as ArrayBuffer);
+    // Copied out, as the digest may be a view of a larger, shared buffer.
+    return Promise.resolve(new Uint8Array(hash.update(bytes).digest()).buffer);
+  }
+
+  newReadableStream(pull: () => Promise<Uint8Array|null>): ReadableStream {
+    return new MockReadableStream(pull);
+  }
+
+  isClient(source: any): source is Client {
+    return (source instanceof MockClient);
+  }
+
+  /**
+   * Whether the SW has asked to be activated without waiting for the old one's pages to close.
+   */
+  skippedWaiting = false;
+
+  async skipWaiting(): Promise<void> {
+    this.skippedWaiting = true;
+  }
 
   waitUntil(promise: Promise<void>): void {}
 
@@ -112,6 +268,69 @@ export class SwTestHarness implements ServiceWorkerGlobalScope, Adapter, Context
     return [event.response, ctx.ready]; 
   }
 
+  handleMessage(data: Object, clientId: string|null): Promise<void> {
+    const ctx = new OneTimeContext();
+    if (!this.eventHandlers.has('message')) {
+      throw new Error('No message handler registered');
+    }
+    const source = (clientId !== null) ? this.clients.getMock(clientId) || null : null;
+    const event = new MockExtendableMessageEvent(data, source, ctx);
+    this.eventHandlers.get('message')!.call(this, event);
+
+    return ctx.ready;
+  }
+
+  handleInstall(): Promise<void> {
+    return this.handleLifecycleEvent('install');
+  }
+
+  handleActivate(): Promise<void> {
+    return this.handleLifecycleEvent('activate');
+  }
+
+  private handleLifecycleEvent(type: string): Promise<void> {
+    const ctx = new OneTimeContext();
+    if (!this.eventHandlers.has(type)) {
+      throw new Error(`No ${type} handler registered`);
+    }
+    this.eventHandlers.get(type)!.call(this, new MockExtendableEvent(ctx));
+
+    return ctx.ready;
+  }
+
+  handlePush(data: Object|string|null): Promise<void> {
+    const ctx = new OneTimeContext();
+    if (!this.eventHandlers.has('push')) {
+      throw new Error('No push handler registered');
+    }
+    const event = new MockPushEvent(data, ctx);
+    this.eventHandlers.get('push')!.call(this, event);
+
+    return ctx.ready;
+  }
+
+  handleNotificationClick(title: string, options: NotificationOptions = {}, action: string = ''): Promise<void> {
+    const ctx = new OneTimeContext();
+    if (!this.eventHandlers.has('notificationclick')) {
+      throw new Error('No notificationclick handler registered');
+    }
+    const event = new MockNotificationEvent(new MockNotification(title, options), action, ctx);
+    this.eventHandlers.get('notificationclick')!.call(this, event);
+
+    return ctx.ready;
+  }
+
+  handleSync(tag: string): Promise<void> {
+    const ctx = new OneTimeContext();
+    if (!this.eventHandlers.has('sync')) {
+      throw new Error('No sync handler registered');
+    }
+    const event = new MockSyncEvent(tag, ctx);
+    this.eventHandlers.get('sync')!.call(this, event);
+
+    return ctx.ready;
+  }
+
   timeout(ms: number): Promise<void> {
     return new Promise(resolve => {
       this.timers.push({
@@ -122,6 +341,13 @@ export class SwTestHarness implements ServiceWorkerGlobalScope, Adapter, Context
     });
   }
 
+  /**
+   * Whether anything is waiting for the clock to be advanced.
+   */
+  get waitingOnTimers(): boolean {
+    return this.timers.some(timer => !timer.fired);
+  }
+
   advance(by: number): void {
     this.time += by;
     this
@@ -216,4 +442,87 @@ class MockFetchEvent {
   waitUntil(promise: Promise<void>): void {
     this.ctx.waitUntil(promise);
   }
-}
\ No newline at end of file
+}
+class MockExtendableMessageEvent {
+  constructor(readonly data: Object, readonly source: MockClient|null, private ctx: Context) {}
+
+  waitUntil(promise: Promise<void>): void {
+    this.ctx.waitUntil(promise);
+  }
+}
+
+class MockExtendableEvent {
+  constructor(private ctx: Context) {}
+
+  waitUntil(promise: Promise<void>): void {
+    this.ctx.waitUntil(promise);
+  }
+}
+
+class MockSyncEvent {
+  readonly lastChance = false;
+
+  constructor(readonly tag: string, private ctx: Context) {}
+
+  waitUntil(promise: Promise<void>): void {
+    this.ctx.waitUntil(promise);
+  }
+}
+
+class MockPushMessageData {
+  constructor(private data: string) {}
+
+  arrayBuffer(): ArrayBuffer {
+    return utf8Encode(this.data).buffer as ArrayBuffer;
+  }
+
+  blob(): Blob {
+    throw 'Not implemented';
+  }
+
+  json(): any {
+    return JSON.parse(this.data);
+  }
+
+  text(): string {
+    return this.data;
+  }
+}
+
+class MockPushEvent {
+  readonly data: MockPushMessageData|null;
+
+  constructor(data: Object|string|null, private ctx: Context) {
+    if (data === null) {
+      this.data = null;
+    } else {
+      this.data = new MockPushMessageData(typeof data === 'string' ? data : JSON.stringify(data));
+    }
+  }
+
+  waitUntil(promise: Promise<void>): void {
+    this.ctx.waitUntil(promise);
+  }
+}
+
+export class MockNotification {
+  closed = false;
+
+  constructor(readonly title: string, private options: NotificationOptions) {}
+
+  get data(): any {
+    return this.options.data;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+class MockNotificationEvent {
+  constructor(readonly notification: MockNotification, readonly action: string, private ctx: Context) {}
+
+  waitUntil(promise: Promise<void>): void {
+    this.ctx.waitUntil(promise);
+  }
+}